@@ -1,26 +1,77 @@
 import React, { useState, useCallback, useRef, useMemo, useEffect } from 'react';
-import Papa from 'papaparse';
 import { DataGrid } from './components/DataGrid';
 import { AgentChat } from './components/AgentChat';
-import { UploadIcon, HistoryIcon, DownloadIcon } from './components/Icons';
-import { parseCommand, generateColumnDescriptions } from './services/geminiService';
-import { applyStep, previewStep } from './services/dataProcessor';
-import { inferColumnTypes } from './services/typeDetector';
-import { AgentStatus, TableData, Step, Message, PreviewData, Operation, ColumnSchema, SortConfig, SortDirection, ConditionalFormatRule } from './types';
+import { SettingsPanel } from './components/SettingsPanel';
+import { SessionPicker } from './components/SessionPicker';
+import { ImportDialog } from './components/ImportDialog';
+import { XlsxImportDialog } from './components/XlsxImportDialog';
+import { ExportDialog, ExportTarget } from './components/ExportDialog';
+import { UploadIcon, HistoryIcon, RedoIcon, DownloadIcon, CodeIcon, SettingsIcon } from './components/Icons';
+import { parseCommand, generateColumnDescriptions } from './services/agentService';
+import { loadLLMSettings, saveLLMSettings, PROVIDER_OPTIONS } from './services/llmProviders';
+import { parseRecipe } from './services/recipeLoader';
+import { formatStepIssues, suggestCorrectedCommands } from './services/stepValidator';
+import { parseCsvInWorker, inspectXlsxInWorker, parseXlsxInWorker, exportXlsxInWorker, exportTableInWorker, validateStepsInWorker, previewStepsInWorker, replayStepsInWorker, isCancelledError, EngineTaskOptions } from './services/engineClient';
+import { detectCsvOptions, formatHeaderChanges, DEFAULT_CSV_IMPORT_OPTIONS } from './services/csvImporter';
+import { serializeTable, getExportFormat, DEFAULT_EXPORT_OPTIONS } from './services/exportFormats';
+import { buildCommandContext } from './services/commandContext';
+import { createRowComparator } from './services/comparison';
+import { buildSchema, mergeDescriptions } from './services/schemaSync';
+import { createHistoryEntry, findEntry, getRedoEntry, getBranchTip, isAncestorOf, getLineage } from './services/historyTree';
+import { firstChangedIndex } from './services/pipeline';
+import { listSessions, loadSession, deleteSession, saveSessionTables, saveSessionState } from './services/sessionStore';
+import { AgentStatus, TableData, Step, Message, PreviewData, Operation, ColumnSchema, SortConfig, SortDirection, ConditionalFormatRule, HistoryEntry, CastTarget, LookupTables, LLMSettings, SessionSummary, EngineProgress, CsvImportOptions, XlsxImportOptions, XlsxSheetPreview, ImportResult, ExportFormatId, ExportOptions } from './types';
 import { v4 as uuidv4 } from 'uuid';
 
+const FILE_ACCEPT = ".csv,.tsv,.txt,.xlsx,text/csv,text/tab-separated-values,text/plain,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+const isWorkbook = (file: File): boolean => /\.xlsx$/i.test(file.name);
+
+// Formatting rules don't change the data: they are listed in a preview but kept out of its diff and the history.
+const isFormatStep = (step: Step): boolean => step.op === Operation.ConditionalFormat;
+
+const downloadBlob = (blob: Blob, name: string) => {
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', name);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
 export default function App() {
   const [tableData, setTableData] = useState<TableData>({ headers: [], rows: [] });
   const [columnSchema, setColumnSchema] = useState<ColumnSchema>({});
   const [sortConfig, setSortConfig] = useState<SortConfig>(null);
   const [fileName, setFileName] = useState<string>('');
-  const [history, setHistory] = useState<{ data: TableData; steps: Step[] }[]>([]);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  // The entry on screen, and the end of the branch that redo walks towards.
+  const [currentEntryId, setCurrentEntryId] = useState<string | null>(null);
+  const [headEntryId, setHeadEntryId] = useState<string | null>(null);
   const [steps, setSteps] = useState<Step[]>([]);
   const [messages, setMessages] = useState<Message[]>([]);
   const [agentStatus, setAgentStatus] = useState<AgentStatus>(AgentStatus.Idle);
   const [previewData, setPreviewData] = useState<PreviewData | null>(null);
   const [conditionalFormats, setConditionalFormats] = useState<ConditionalFormatRule[]>([]);
+  const [lookupTables, setLookupTables] = useState<LookupTables>({});
+  const [llmSettings, setLLMSettings] = useState<LLMSettings>(loadLLMSettings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  // How the loaded CSV's lines ended, kept for exports; empty for workbooks.
+  const [sourceLineEndings, setSourceLineEndings] = useState<{ newline?: string; finalNewline?: boolean }>({});
+  // Autosave key for the loaded file; null until a file is loaded or a session restored.
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [recentSessions, setRecentSessions] = useState<SessionSummary[]>([]);
+  const [taskProgress, setTaskProgress] = useState<EngineProgress | null>(null);
+  // A file waiting for the import dialog to confirm how to read it.
+  const [pendingImport, setPendingImport] = useState<{ file: File; options: CsvImportOptions } | null>(null);
+  const [pendingXlsxImport, setPendingXlsxImport] = useState<{ file: File; sheets: XlsxSheetPreview[]; options: XlsxImportOptions } | null>(null);
+  const taskControllerRef = useRef<AbortController | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const recipeInputRef = useRef<HTMLInputElement>(null);
+  const lookupInputRef = useRef<HTMLInputElement>(null);
 
   const clearState = () => {
     setTableData({ headers: [], rows: [] });
@@ -28,77 +79,302 @@ export default function App() {
     setSortConfig(null);
     setFileName('');
     setHistory([]);
+    setCurrentEntryId(null);
+    setHeadEntryId(null);
     setSteps([]);
     setMessages([]);
     setAgentStatus(AgentStatus.Idle);
     setPreviewData(null);
     setConditionalFormats([]);
+    setLookupTables({});
+    setSourceLineEndings({});
+    setSessionId(null);
     if(fileInputRef.current) fileInputRef.current.value = '';
   };
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
+  const refreshRecentSessions = () => {
+    listSessions()
+      .then(setRecentSessions)
+      .catch(err => console.error("Failed to list saved sessions:", err));
+  };
+
+  useEffect(refreshRecentSessions, []);
+
+  // The tables are big and rarely change, so they're saved apart from the rest of the session.
+  const rootData = useMemo(() => history.find(entry => entry.parentId === null)?.data, [history]);
+
+  useEffect(() => {
+    if (!sessionId || !rootData) return;
+    saveSessionTables(sessionId, rootData, lookupTables, sourceLineEndings).catch(err => console.error("Failed to save the session tables:", err));
+  }, [sessionId, rootData, lookupTables, sourceLineEndings]);
+
+  useEffect(() => {
+    if (!sessionId || !currentEntryId || !headEntryId) return;
+    const timer = setTimeout(() => {
+      saveSessionState(sessionId, fileName, { history, currentEntryId, headEntryId, conditionalFormats, messages })
+        .catch(err => console.error("Failed to save the session:", err));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [sessionId, fileName, history, currentEntryId, headEntryId, conditionalFormats, messages]);
+
+  const handleRestoreSession = async (id: string) => {
+    // Shows the loading bar while the steps are replayed.
+    clearState();
+    setFileName(recentSessions.find(session => session.id === id)?.fileName || '');
+    setAgentStatus(AgentStatus.Applying);
+    try {
+      const session = await runEngineTask(options => loadSession(id, options));
+      const current = session.history.find(entry => entry.id === session.currentEntryId) || session.history[0];
+      setFileName(session.fileName);
+      setLookupTables(session.lookups);
+      setSourceLineEndings({ newline: session.newline, finalNewline: session.finalNewline });
+      setHistory(session.history);
+      setCurrentEntryId(current.id);
+      setHeadEntryId(session.headEntryId);
+      setTableData(current.data);
+      setSteps(current.steps);
+      setColumnSchema(current.schema);
+      setConditionalFormats(session.conditionalFormats);
+      setMessages([...session.messages, { id: uuidv4(), sender: 'agent', content: `Restored your session for ${session.fileName}.` }]);
+      setSessionId(id);
+      setAgentStatus(AgentStatus.Idle);
+    } catch (error) {
       clearState();
-      setFileName(file.name);
-      setAgentStatus(AgentStatus.Applying);
-      Papa.parse(file, {
-        header: true,
-        skipEmptyLines: true,
-        dynamicTyping: true,
-        complete: (results) => {
-          const headers = results.meta.fields || [];
-          const rows = results.data as Record<string, any>[];
-          const initialData = { headers, rows };
-          
-          const types = inferColumnTypes(rows, headers);
-          const initialSchema: ColumnSchema = {};
-          headers.forEach(h => {
-              initialSchema[h] = { type: types[h] || 'string' };
+      if (isCancelledError(error)) return;
+      const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+      setMessages([{ id: uuidv4(), sender: 'agent', content: `Could not restore the session: ${errorMessage}` }]);
+    }
+  };
+
+  const handleDeleteSession = (id: string) => {
+    deleteSession(id)
+      .then(refreshRecentSessions)
+      .catch(err => console.error("Failed to delete the session:", err));
+  };
+
+  // Runs one engine task at a time, reporting its progress and making it cancellable from the status bar.
+  const runEngineTask = async <T,>(task: (options: EngineTaskOptions) => Promise<T>): Promise<T> => {
+    const controller = new AbortController();
+    taskControllerRef.current = controller;
+    setTaskProgress(null);
+    try {
+      return await task({ signal: controller.signal, onProgress: setTaskProgress });
+    } finally {
+      if (taskControllerRef.current === controller) taskControllerRef.current = null;
+      setTaskProgress(null);
+    }
+  };
+
+  const cancelEngineTask = () => {
+    taskControllerRef.current?.abort();
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+    if (isWorkbook(file)) {
+      try {
+        const { sheets, options } = await runEngineTask(options => inspectXlsxInWorker(file, options));
+        setPendingXlsxImport({ file, sheets, options });
+      } catch (error) {
+        if (isCancelledError(error)) return;
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        setMessages(prev => [...prev, { id: uuidv4(), sender: 'agent', content: `Could not open ${file.name}: ${errorMessage}` }]);
+      }
+      return;
+    }
+    const options = await detectCsvOptions(file).catch(err => {
+      console.error("Failed to detect the CSV format:", err);
+      return DEFAULT_CSV_IMPORT_OPTIONS;
+    });
+    setPendingImport({ file, options });
+  };
+
+  // Loads a table read by `parse` as the new starting point, shared by CSV and workbook imports.
+  const importFile = (file: File, parse: (options: EngineTaskOptions) => Promise<ImportResult>) => {
+    setPendingImport(null);
+    setPendingXlsxImport(null);
+    clearState();
+    setFileName(file.name);
+    setAgentStatus(AgentStatus.Applying);
+    runEngineTask(parse)
+      .then(({ data: initialData, headerChanges, newline, finalNewline }) => {
+        const { headers, rows } = initialData;
+        const initialSchema = buildSchema(initialData);
+        setColumnSchema(initialSchema);
+
+        setTableData(initialData);
+        setSourceLineEndings({ newline, finalNewline });
+        const rootEntry = createHistoryEntry(null, initialData, [], initialSchema);
+        setHistory([rootEntry]);
+        setCurrentEntryId(rootEntry.id);
+        setHeadEntryId(rootEntry.id);
+        setSessionId(uuidv4());
+        setMessages([
+          { id: uuidv4(), sender: 'agent', content: `Loaded ${file.name}. ${rows.length} rows and ${headers.length} columns. Ready for your instructions.` },
+          ...(headerChanges.length > 0 ? [{ id: uuidv4(), sender: 'agent' as const, content: formatHeaderChanges(file.name, headerChanges) }] : []),
+        ]);
+        setAgentStatus(AgentStatus.Idle);
+
+        // Asynchronously fetch and update descriptions
+        generateColumnDescriptions(headers, rows, llmSettings)
+          .then(descriptions => {
+            setColumnSchema(prevSchema => mergeDescriptions(prevSchema, descriptions));
+            // Snapshots taken before the descriptions arrived should not lose them on undo.
+            setHistory(prevHistory => prevHistory.map(entry => ({ ...entry, schema: mergeDescriptions(entry.schema, descriptions) })));
+          })
+          .catch(err => {
+            // Silently fail, descriptions are a progressive enhancement
+            console.error("Failed to generate column descriptions:", err);
           });
-          setColumnSchema(initialSchema);
-
-          setTableData(initialData);
-          setHistory([{ data: initialData, steps: [] }]);
-          setMessages([{ id: uuidv4(), sender: 'agent', content: `Loaded ${file.name}. ${rows.length} rows and ${headers.length} columns. Ready for your instructions.` }]);
-          setAgentStatus(AgentStatus.Idle);
-
-          // Asynchronously fetch and update descriptions
-          generateColumnDescriptions(headers, rows)
-            .then(descriptions => {
-              setColumnSchema(prevSchema => {
-                const newSchema = { ...prevSchema };
-                for (const header in descriptions) {
-                  if (newSchema[header]) {
-                    newSchema[header] = { ...newSchema[header], description: descriptions[header] };
-                  }
-                }
-                return newSchema;
-              });
-            })
-            .catch(err => {
-              // Silently fail, descriptions are a progressive enhancement
-              console.error("Failed to generate column descriptions:", err);
-            });
-        },
-        error: (error) => {
-          setMessages([{ id: uuidv4(), sender: 'agent', content: `Error parsing CSV: ${error.message}` }]);
-          setAgentStatus(AgentStatus.Idle);
+      })
+      .catch((error: Error) => {
+        if (isCancelledError(error)) {
+          clearState();
+          return;
         }
+        setMessages([{ id: uuidv4(), sender: 'agent', content: `Error reading ${file.name}: ${error.message}` }]);
+        setAgentStatus(AgentStatus.Idle);
       });
+  };
+
+  const handleLookupUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (lookupInputRef.current) lookupInputRef.current.value = '';
+    if (!file || !tableData.headers.length) return;
+
+    try {
+      // Workbooks use the sheet and layout detected for them, as CSVs do.
+      const { data: lookup, headerChanges } = isWorkbook(file)
+        ? await parseXlsxInWorker(file, (await inspectXlsxInWorker(file)).options)
+        : await parseCsvInWorker(file, await detectCsvOptions(file));
+      setLookupTables(prev => ({ ...prev, [file.name]: lookup }));
+      setMessages(prev => [...prev, {
+        id: uuidv4(),
+        sender: 'agent',
+        content: `Loaded lookup table ${file.name} (${lookup.rows.length} rows; columns: ${lookup.headers.join(', ')}). You can now ask me to join it with the main table.`,
+      }, ...(headerChanges.length > 0 ? [{ id: uuidv4(), sender: 'agent' as const, content: formatHeaderChanges(file.name, headerChanges) }] : [])]);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+      setMessages(prev => [...prev, { id: uuidv4(), sender: 'agent', content: `Error reading lookup ${file.name}: ${errorMessage}` }]);
+    }
+  };
+
+  const handleSaveSettings = (settings: LLMSettings) => {
+    saveLLMSettings(settings);
+    setLLMSettings(settings);
+    setIsSettingsOpen(false);
+  };
+
+  const startPreview = async (planSteps: Step[], explanation: string) => {
+    setAgentStatus(AgentStatus.Previewing);
+    try {
+      const preview = await runEngineTask(options =>
+        previewStepsInWorker(tableData, planSteps.filter(step => !isFormatStep(step)), { lookups: lookupTables, schema: columnSchema }, options));
+      setPreviewData({ steps: planSteps, enabled: planSteps.map(() => true), explanation, ...preview });
+      setAgentStatus(AgentStatus.AwaitingConfirmation);
+    } catch (error) {
+      if (isCancelledError(error)) {
+        setMessages(prev => [...prev, { id: uuidv4(), sender: 'agent', content: 'Preview cancelled.' }]);
+        setAgentStatus(AgentStatus.Idle);
+        return;
+      }
+      console.error(error);
+      const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+      setMessages(prev => [...prev, { id: uuidv4(), sender: 'agent', content: `Could not preview the change: ${errorMessage}` }]);
+      setAgentStatus(AgentStatus.Idle);
+    }
+  };
+
+  const handleRecipeUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (recipeInputRef.current) recipeInputRef.current.value = '';
+    if (!file || !tableData.headers.length || agentStatus !== AgentStatus.Idle) return;
+
+    setPreviewData(null);
+    let recipe: Step[];
+    try {
+      recipe = parseRecipe(await file.text());
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+      setMessages(prev => [...prev, { id: uuidv4(), sender: 'agent', content: `Could not load steps from ${file.name}: ${errorMessage}` }]);
+      return;
+    }
+
+    if (recipe.length === 0) {
+      setMessages(prev => [...prev, { id: uuidv4(), sender: 'agent', content: `${file.name} does not contain any steps.` }]);
+      return;
     }
+
+    setAgentStatus(AgentStatus.Previewing);
+    let issues;
+    try {
+      issues = await runEngineTask(options => validateStepsInWorker(tableData, recipe, { lookups: lookupTables, schema: columnSchema }, options));
+    } catch (error) {
+      const errorMessage = isCancelledError(error) ? 'cancelled' : error instanceof Error ? error.message : "an unknown error occurred";
+      setMessages(prev => [...prev, { id: uuidv4(), sender: 'agent', content: `Could not check the steps in ${file.name}: ${errorMessage}.` }]);
+      setAgentStatus(AgentStatus.Idle);
+      return;
+    }
+    if (issues.length > 0) {
+      setMessages(prev => [...prev, { id: uuidv4(), sender: 'agent', content: `The steps in ${file.name} don't match this file, so nothing was applied.\n${formatStepIssues(issues, recipe.length)}` }]);
+      setAgentStatus(AgentStatus.Idle);
+      return;
+    }
+
+    startPreview(recipe, `Replay ${recipe.length} step${recipe.length > 1 ? 's' : ''} from ${file.name}`);
+  };
+
+  const handleTypeOverride = (column: string, target: CastTarget) => {
+    if (agentStatus !== AgentStatus.Idle && agentStatus !== AgentStatus.AwaitingConfirmation) return;
+    setPreviewData(null);
+    startPreview(
+      [{ op: Operation.CastColumn, params: { column, target_type: target }, explanation: `Convert "${column}" to ${target}` }],
+      `Convert "${column}" to ${target}`
+    );
+  };
+
+  const currentEntry = findEntry(history, currentEntryId);
+  const canUndo = Boolean(currentEntry?.parentId);
+  const redoEntry = currentEntryId && headEntryId ? getRedoEntry(history, currentEntryId, headEntryId) : undefined;
+  const canNavigateHistory = agentStatus === AgentStatus.Idle || agentStatus === AgentStatus.AwaitingConfirmation;
+
+  // Shows a history entry. Any pending preview was computed against the old state, so it's dropped.
+  const restoreEntry = (entry: HistoryEntry) => {
+    setTableData(entry.data);
+    setSteps(entry.steps);
+    setColumnSchema(entry.schema);
+    setCurrentEntryId(entry.id);
+    setPreviewData(null);
+    setAgentStatus(AgentStatus.Idle);
   };
 
   const executeUndo = () => {
-    if (history.length > 1) {
-      const newHistory = history.slice(0, -1);
-      const lastState = newHistory[newHistory.length - 1];
-      setHistory(newHistory);
-      setTableData(lastState.data);
-      setSteps(lastState.steps);
-      setPreviewData(null);
-      setMessages(prev => [...prev, { id: uuidv4(), sender: 'agent', content: "Undo successful. Reverted to the previous state." }]);
+    const parent = currentEntry && findEntry(history, currentEntry.parentId);
+    if (!parent || !canNavigateHistory) return;
+    restoreEntry(parent);
+    setMessages(prev => [...prev, { id: uuidv4(), sender: 'agent', content: "Undo successful. Reverted to the previous state." }]);
+  };
+
+  const executeRedo = () => {
+    if (!redoEntry || !canNavigateHistory) return;
+    restoreEntry(redoEntry);
+    setMessages(prev => [...prev, { id: uuidv4(), sender: 'agent', content: `Redo: ${redoEntry.steps[redoEntry.steps.length - 1].explanation}` }]);
+  };
+
+  const jumpToEntry = (id: string) => {
+    const entry = findEntry(history, id);
+    if (!entry || id === currentEntryId || !canNavigateHistory) return;
+    restoreEntry(entry);
+    // Jumping onto another branch makes it the one redo follows.
+    if (!headEntryId || !isAncestorOf(history, id, headEntryId)) {
+      setHeadEntryId(getBranchTip(history, id));
     }
+    const content = entry.steps.length === 0
+      ? 'Restored the original data.'
+      : `Restored the state after step ${entry.steps.length}: ${entry.steps[entry.steps.length - 1].explanation}`;
+    setMessages(prev => [...prev, { id: uuidv4(), sender: 'agent', content }]);
   };
 
   const handleSendMessage = useCallback(async (command: string) => {
@@ -110,55 +386,166 @@ export default function App() {
     setPreviewData(null);
 
     try {
-      const step = await parseCommand(command, tableData.headers);
-      if (step.op === Operation.Error) {
+      const context = buildCommandContext(tableData, columnSchema, messages, steps, lookupTables);
+      const validate = (plan: Step[]) => runEngineTask(options => validateStepsInWorker(tableData, plan, { lookups: lookupTables, schema: columnSchema }, options));
+      const { steps: plan, parsedBy } = await parseCommand(command, context, llmSettings, validate);
+      const errorStep = plan.find(step => step.op === Operation.Error);
+      if (errorStep) {
         const agentMessage: Message = { 
           id: uuidv4(), 
           sender: 'agent', 
-          content: step.params.message || "I couldn't understand that request. Could you please rephrase it?",
-          suggestions: step.params.suggestions,
+          content: errorStep.params.message || "I couldn't understand that request. Could you please rephrase it?",
+          suggestions: errorStep.params.suggestions,
+          parsedBy,
         };
         setMessages(prev => [...prev, agentMessage]);
         setAgentStatus(AgentStatus.Idle);
         return;
       }
 
-      if (step.op === Operation.ConditionalFormat) {
-          const newRule: ConditionalFormatRule = {
-              id: uuidv4(),
-              ...step.params,
-          };
-          setConditionalFormats(prev => [...prev, newRule]);
-          setMessages(prev => [...prev, {id: uuidv4(), sender: 'agent', content: `Applied formatting rule: ${step.explanation}`}]);
-          setAgentStatus(AgentStatus.Idle);
-          return;
+      // Catch missing columns and malformed params now, rather than showing a preview where nothing changes.
+      const issues = await validate(plan);
+      if (issues.length > 0) {
+        setMessages(prev => [...prev, {
+          id: uuidv4(),
+          sender: 'agent',
+          content: `I can't run that as planned:\n${formatStepIssues(issues, plan.length)}`,
+          suggestions: suggestCorrectedCommands(command, issues),
+          parsedBy,
+        }]);
+        setAgentStatus(AgentStatus.Idle);
+        return;
       }
-      
-      setAgentStatus(AgentStatus.Previewing);
-      const preview = previewStep(tableData, step);
-      setPreviewData({ step, ...preview });
-      setAgentStatus(AgentStatus.AwaitingConfirmation);
+
+      setMessages(prev => [...prev, {
+        id: uuidv4(),
+        sender: 'agent',
+        content: plan.length === 1 ? `Proposed: ${plan[0].explanation}` : `Proposed a ${plan.length}-step plan. Review it below.`,
+        parsedBy,
+      }]);
+      startPreview(plan, plan.length === 1 ? plan[0].explanation : `${plan.length}-step plan for "${command}"`);
 
     } catch (error) {
       console.error(error);
       const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
-      setMessages(prev => [...prev, { id: uuidv4(), sender: 'agent', content: `An error occurred: ${errorMessage}` }]);
+      const content = isCancelledError(error) ? 'Cancelled.' : `An error occurred: ${errorMessage}`;
+      setMessages(prev => [...prev, { id: uuidv4(), sender: 'agent', content }]);
       setAgentStatus(AgentStatus.Idle);
     }
-  }, [tableData, agentStatus]);
+  }, [tableData, agentStatus, lookupTables, columnSchema, llmSettings, messages, steps]);
+
+  const togglePreviewStep = async (index: number) => {
+    if (!previewData || agentStatus !== AgentStatus.AwaitingConfirmation) return;
+    const enabled = previewData.enabled.map((on, i) => (i === index ? !on : on));
+    setAgentStatus(AgentStatus.Previewing);
+    try {
+      const preview = await runEngineTask(options =>
+        previewStepsInWorker(tableData, previewData.steps.filter((step, i) => enabled[i] && !isFormatStep(step)), { lookups: lookupTables, schema: columnSchema }, options));
+      setPreviewData({ ...previewData, enabled, ...preview });
+    } catch (error) {
+      // A cancelled or failed refresh leaves the previous preview in place.
+      if (!isCancelledError(error)) {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        setMessages(prev => [...prev, { id: uuidv4(), sender: 'agent', content: `Could not preview the change: ${errorMessage}` }]);
+      }
+    }
+    setAgentStatus(AgentStatus.AwaitingConfirmation);
+  };
+
+  // Re-runs the pipeline from the first changed step. The result is a new branch, so the old pipeline stays reachable.
+  const updatePipeline = async (newSteps: Step[], summary: string) => {
+    if (!currentEntryId || !canNavigateHistory) return;
+    const from = firstChangedIndex(steps, newSteps);
+    const base = getLineage(history, currentEntryId)[from];
+    const previousStatus = agentStatus;
+    setAgentStatus(AgentStatus.Applying);
+    let entries: HistoryEntry[];
+    try {
+      entries = await runEngineTask(options => replayStepsInWorker(base, newSteps.slice(from), { lookups: lookupTables }, options));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+      const content = isCancelledError(error) ? `${summary}: cancelled, nothing was changed.` : `Could not re-run the steps: ${errorMessage}`;
+      setMessages(prev => [...prev, { id: uuidv4(), sender: 'agent', content }]);
+      setAgentStatus(previousStatus);
+      return;
+    }
+    const last = entries[entries.length - 1] || base;
+
+    setHistory(prev => [...prev, ...entries]);
+    restoreEntry(last);
+    setHeadEntryId(last.id);
 
-  const applyChanges = () => {
-    if (!previewData) return;
+    const flagged = entries.filter(entry => entry.stepErrors).map(entry => entry.steps.length);
+    const rerun = entries.length > 0 ? ` Re-ran ${entries.length} step${entries.length > 1 ? 's' : ''} from step ${from + 1}.` : '';
+    const warning = flagged.length > 0
+      ? `\nStep${flagged.length > 1 ? 's' : ''} ${flagged.join(', ')} can no longer run and ${flagged.length > 1 ? 'were' : 'was'} skipped. Fix or delete ${flagged.length > 1 ? 'them' : 'it'} in the History tab.`
+      : '';
+    setMessages(prev => [...prev, { id: uuidv4(), sender: 'agent', content: `${summary}.${rerun}${warning}` }]);
+  };
+
+  const handleEditStep = (index: number, params: any) => {
+    updatePipeline(steps.map((step, i) => (i === index ? { ...step, params } : step)), `Edited step ${index + 1}`);
+  };
+
+  const handleToggleStep = (index: number) => {
+    const step = steps[index];
+    updatePipeline(
+      steps.map((s, i) => (i === index ? { ...s, disabled: !s.disabled } : s)),
+      `${step.disabled ? 'Enabled' : 'Disabled'} step ${index + 1}`,
+    );
+  };
+
+  const handleMoveStep = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= steps.length) return;
+    const reordered = [...steps];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    updatePipeline(reordered, `Moved step ${index + 1} to position ${target + 1}`);
+  };
+
+  const handleDeleteStep = (index: number) => {
+    updatePipeline(steps.filter((_, i) => i !== index), `Deleted step ${index + 1}`);
+  };
+
+  const applyChanges = async () => {
+    if (!previewData || !currentEntry || agentStatus !== AgentStatus.AwaitingConfirmation) return;
+    const acceptedSteps = previewData.steps.filter((_, i) => previewData.enabled[i]);
+    if (acceptedSteps.length === 0) return;
+    const dataSteps = acceptedSteps.filter(step => !isFormatStep(step));
 
     setAgentStatus(AgentStatus.Applying);
-    const newTableData = applyStep(tableData, previewData.step);
-    const newSteps = [...steps, previewData.step];
-
-    setTableData(newTableData);
-    setSteps(newSteps);
-    setHistory(prev => [...prev, { data: newTableData, steps: newSteps }]);
-    
-    setMessages(prev => [...prev, { id: uuidv4(), sender: 'agent', content: `Applied: ${previewData.step.explanation}` }]);
+    if (dataSteps.length > 0) {
+      // Each step gets its own history entry so that undo still works one step at a time.
+      // Entries after the current one stay in the tree; the new entries start a branch beside them.
+      let newEntries: HistoryEntry[];
+      try {
+        newEntries = await runEngineTask(options => replayStepsInWorker(currentEntry, dataSteps, { lookups: lookupTables }, options));
+      } catch (error) {
+        if (!isCancelledError(error)) {
+          const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+          setMessages(prev => [...prev, { id: uuidv4(), sender: 'agent', content: `Could not apply the change: ${errorMessage}` }]);
+        }
+        // The preview is still valid, so it stays up for another try.
+        setAgentStatus(AgentStatus.AwaitingConfirmation);
+        return;
+      }
+      const last = newEntries[newEntries.length - 1];
+
+      setTableData(last.data);
+      setSteps(last.steps);
+      setColumnSchema(last.schema);
+      setHistory(prev => [...prev, ...newEntries]);
+      setCurrentEntryId(last.id);
+      setHeadEntryId(last.id);
+    }
+
+    const newRules: ConditionalFormatRule[] = acceptedSteps.filter(isFormatStep).map(step => ({ id: uuidv4(), ...step.params }));
+    if (newRules.length > 0) setConditionalFormats(prev => [...prev, ...newRules]);
+
+    const appliedSummary = acceptedSteps.length === previewData.steps.length
+      ? previewData.explanation
+      : acceptedSteps.map(step => step.explanation).join('; ');
+    setMessages(prev => [...prev, { id: uuidv4(), sender: 'agent', content: `Applied: ${appliedSummary}` }]);
     setPreviewData(null);
     setAgentStatus(AgentStatus.Idle);
   };
@@ -168,32 +555,50 @@ export default function App() {
     setAgentStatus(AgentStatus.Idle);
   };
   
-  const handleDownload = (format: 'csv' | 'json') => {
+  const exportBaseName = fileName.replace(/\.[^.]+$/, '') || 'data';
+  const exportOptions: ExportOptions = {
+    ...DEFAULT_EXPORT_OPTIONS,
+    newline: sourceLineEndings.newline || DEFAULT_EXPORT_OPTIONS.newline,
+    finalNewline: sourceLineEndings.finalNewline ?? DEFAULT_EXPORT_OPTIONS.finalNewline,
+  };
+
+  const handleDownload = (format: 'csv' | 'xlsx' | 'json') => {
     if (format === 'csv') {
-        const csv = Papa.unparse(tableData.rows);
-        const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-        const link = document.createElement('a');
-        const url = URL.createObjectURL(blob);
-        link.setAttribute('href', url);
-        link.setAttribute('download', `edited_${fileName || 'data.csv'}`);
-        link.style.visibility = 'hidden';
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+        const csv = serializeTable(tableData, columnSchema, 'csv', { ...exportOptions, useGridOrder: false });
+        downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8;' }), `edited_${exportBaseName}.csv`);
+    } else if (format === 'xlsx') {
+        exportXlsxInWorker(tableData, columnSchema, conditionalFormats, exportBaseName)
+          .then(buffer => downloadBlob(new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), `edited_${exportBaseName}.xlsx`))
+          .catch(error => {
+            const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+            setMessages(prev => [...prev, { id: uuidv4(), sender: 'agent', content: `Could not export the workbook: ${errorMessage}` }]);
+          });
     } else {
         const json = JSON.stringify({ steps }, null, 2);
-        const blob = new Blob([json], { type: 'application/json;charset=utf-8;' });
-        const link = document.createElement('a');
-        const url = URL.createObjectURL(blob);
-        link.setAttribute('href', url);
-        link.setAttribute('download', `steps_${fileName || 'data'}.json`);
-        link.style.visibility = 'hidden';
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+        downloadBlob(new Blob([json], { type: 'application/json;charset=utf-8;' }), `steps_${exportBaseName}.json`);
     }
   };
 
+  // Larger tables take a while to write, so the export dialog hands the work to the engine worker.
+  const handleExport = (formatId: ExportFormatId, options: ExportOptions, target: ExportTarget) => {
+    const format = getExportFormat(formatId);
+    const data = options.useGridOrder ? sortedTableData : tableData;
+    exportTableInWorker(data, columnSchema, formatId, options)
+      .then(async text => {
+        if (target === 'clipboard') {
+          await navigator.clipboard.writeText(text);
+          setMessages(prev => [...prev, { id: uuidv4(), sender: 'agent', content: `Copied ${data.rows.length} rows as ${format.label} to the clipboard.` }]);
+        } else {
+          downloadBlob(new Blob([text], { type: format.mimeType }), `edited_${exportBaseName}.${format.extension}`);
+        }
+        setIsExportOpen(false);
+      })
+      .catch(error => {
+        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+        setMessages(prev => [...prev, { id: uuidv4(), sender: 'agent', content: `Could not export the table: ${errorMessage}` }]);
+      });
+  };
+
   const handleSort = (key: string) => {
     if (sortConfig && sortConfig.key === key) {
         if (sortConfig.direction === SortDirection.Asc) {
@@ -210,6 +615,25 @@ export default function App() {
     setConditionalFormats(prev => prev.filter(f => f.id !== id));
   };
 
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes. Text fields keep their own undo.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      if (!(event.ctrlKey || event.metaKey)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        executeUndo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        executeRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   useEffect(() => {
     if (sortConfig && !tableData.headers.includes(sortConfig.key)) {
         setSortConfig(null);
@@ -221,29 +645,9 @@ export default function App() {
       return tableData;
     }
 
-    const sortedRows = [...tableData.rows].sort((a, b) => {
-      const { key, direction } = sortConfig;
-      const valA = a[key];
-      const valB = b[key];
-      const type = columnSchema[key]?.type || 'string';
-
-      if (valA === null || valA === undefined) return 1;
-      if (valB === null || valB === undefined) return -1;
-
-      const order = direction === SortDirection.Asc ? 1 : -1;
-
-      switch (type) {
-        case 'number':
-          return (Number(valA) - Number(valB)) * order;
-        case 'date':
-          return (new Date(valA).getTime() - new Date(valB).getTime()) * order;
-        case 'boolean':
-          return (valA === valB ? 0 : valA ? -1 : 1) * order; // true comes first asc
-        case 'string':
-        default:
-          return String(valA).localeCompare(String(valB)) * order;
-      }
-    });
+    const { key, direction } = sortConfig;
+    const sortColumns = [{ column: key, type: columnSchema[key]?.type || 'string', direction }];
+    const sortedRows = [...tableData.rows].sort(createRowComparator(tableData.rows, sortColumns));
 
     return { ...tableData, rows: sortedRows };
   }, [tableData, sortConfig, columnSchema]);
@@ -255,13 +659,31 @@ export default function App() {
         <header className="flex items-center justify-between bg-gray-950 p-3 border-b border-gray-800 shadow-md h-16 shrink-0">
           <h1 className="text-xl font-bold text-gray-100">CSV Agent Editor</h1>
           <div className="flex items-center gap-4">
+            <button
+              onClick={() => setIsSettingsOpen(true)}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-200 bg-gray-800 rounded-md hover:bg-gray-700 transition-colors"
+              title={`Model: ${PROVIDER_OPTIONS.find(o => o.id === llmSettings.provider)?.label} (${llmSettings.model})`}
+            >
+              <SettingsIcon className="w-4 h-4" />
+              Settings
+            </button>
             <button
               onClick={executeUndo}
-              disabled={history.length <= 1}
+              disabled={!canUndo || !canNavigateHistory}
               className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-200 bg-gray-800 rounded-md hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              title="Undo (Ctrl+Z)"
             >
               <HistoryIcon className="w-4 h-4" />
               Undo
+            </button>
+            <button
+              onClick={executeRedo}
+              disabled={!redoEntry || !canNavigateHistory}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-200 bg-gray-800 rounded-md hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <RedoIcon className="w-4 h-4" />
+              Redo
             </button>
              <div className="relative group">
                 <button
@@ -271,11 +693,44 @@ export default function App() {
                     <DownloadIcon className="w-4 h-4" />
                     Export
                 </button>
-                <div className="absolute right-0 mt-2 w-40 bg-gray-800 border border-gray-700 rounded-md shadow-lg opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none group-hover:pointer-events-auto">
+                <div className="absolute right-0 mt-2 w-48 bg-gray-800 border border-gray-700 rounded-md shadow-lg opacity-0 group-hover:opacity-100 transition-opacity duration-200 pointer-events-none group-hover:pointer-events-auto">
                     <a onClick={() => handleDownload('csv')} className="block px-4 py-2 text-sm text-gray-200 hover:bg-gray-700 cursor-pointer">Export CSV</a>
+                    <a onClick={() => handleDownload('xlsx')} className="block px-4 py-2 text-sm text-gray-200 hover:bg-gray-700 cursor-pointer">Export Excel (XLSX)</a>
+                    <a onClick={() => setIsExportOpen(true)} className="block px-4 py-2 text-sm text-gray-200 hover:bg-gray-700 cursor-pointer">More formats…</a>
                     <a onClick={() => handleDownload('json')} className="block px-4 py-2 text-sm text-gray-200 hover:bg-gray-700 cursor-pointer">Export Steps (JSON)</a>
                 </div>
             </div>
+            <button
+              onClick={() => recipeInputRef.current?.click()}
+              disabled={!tableData.headers.length || agentStatus !== AgentStatus.Idle}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-200 bg-gray-800 rounded-md hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <CodeIcon className="w-4 h-4" />
+              Load Steps
+            </button>
+            <input
+              type="file"
+              ref={recipeInputRef}
+              accept=".json,application/json"
+              onChange={handleRecipeUpload}
+              className="hidden"
+            />
+            <button
+              onClick={() => lookupInputRef.current?.click()}
+              disabled={!tableData.headers.length}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-200 bg-gray-800 rounded-md hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              title={Object.keys(lookupTables).length ? `Loaded: ${Object.keys(lookupTables).join(', ')}` : 'Load a second CSV or Excel file to join with'}
+            >
+              <UploadIcon className="w-4 h-4" />
+              Add Lookup
+            </button>
+            <input
+              type="file"
+              ref={lookupInputRef}
+              accept={FILE_ACCEPT}
+              onChange={handleLookupUpload}
+              className="hidden"
+            />
             <button
               onClick={() => fileInputRef.current?.click()}
               className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-500 transition-colors"
@@ -286,7 +741,7 @@ export default function App() {
             <input
               type="file"
               ref={fileInputRef}
-              accept=".csv"
+              accept={FILE_ACCEPT}
               onChange={handleFileUpload}
               className="hidden"
             />
@@ -302,12 +757,28 @@ export default function App() {
                 onSort={handleSort}
                 sortConfig={sortConfig}
                 conditionalFormats={conditionalFormats}
+                onTypeOverride={handleTypeOverride}
             />
           ) : (
              <div className="flex flex-col items-center justify-center h-full text-gray-500 border-2 border-dashed border-gray-700 rounded-lg">
                 <UploadIcon className="w-16 h-16 mb-4"/>
-                <h2 className="text-2xl font-semibold mb-2">Upload a CSV file to get started</h2>
+                <h2 className="text-2xl font-semibold mb-2">Upload a CSV or Excel file to get started</h2>
                 <p>Click the "Load CSV" button in the top right corner.</p>
+                {fileName && agentStatus === AgentStatus.Applying && (
+                  <div className="w-full max-w-md mt-8 text-sm text-gray-300">
+                    <div className="flex justify-between mb-1">
+                      <span>Loading {fileName}…</span>
+                      {taskProgress && <span>{Math.round(taskProgress.fraction * 100)}%</span>}
+                    </div>
+                    <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
+                      <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.round((taskProgress?.fraction || 0) * 100)}%` }}></div>
+                    </div>
+                    <button onClick={cancelEngineTask} className="mt-3 px-3 py-1 text-xs text-gray-300 bg-gray-800 rounded hover:bg-gray-700 transition-colors">
+                      Cancel
+                    </button>
+                  </div>
+                )}
+                {!fileName && <SessionPicker sessions={recentSessions} onRestore={handleRestoreSession} onDelete={handleDeleteSession} />}
             </div>
           )}
         </main>
@@ -317,15 +788,56 @@ export default function App() {
         <AgentChat
           messages={messages}
           status={agentStatus}
+          progress={taskProgress}
+          onCancelTask={cancelEngineTask}
           onSendMessage={handleSendMessage}
           previewData={previewData}
           onApply={applyChanges}
+          onTogglePreviewStep={togglePreviewStep}
           onCancel={cancelChanges}
-          steps={steps}
+          history={history}
+          currentEntryId={currentEntryId}
+          headEntryId={headEntryId}
+          onJumpToEntry={jumpToEntry}
+          onEditStep={handleEditStep}
+          onToggleStep={handleToggleStep}
+          onMoveStep={handleMoveStep}
+          onDeleteStep={handleDeleteStep}
           conditionalFormats={conditionalFormats}
           onRemoveFormat={handleRemoveFormat}
         />
       </aside>
+
+      {isSettingsOpen && (
+        <SettingsPanel settings={llmSettings} onSave={handleSaveSettings} onClose={() => setIsSettingsOpen(false)} />
+      )}
+      {isExportOpen && (
+        <ExportDialog
+          data={tableData}
+          sortedData={sortConfig ? sortedTableData : null}
+          schema={columnSchema}
+          initialOptions={exportOptions}
+          onExport={handleExport}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
+      {pendingImport && (
+        <ImportDialog
+          file={pendingImport.file}
+          initialOptions={pendingImport.options}
+          onImport={(importOptions: CsvImportOptions) => importFile(pendingImport.file, options => parseCsvInWorker(pendingImport.file, importOptions, options))}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+      {pendingXlsxImport && (
+        <XlsxImportDialog
+          file={pendingXlsxImport.file}
+          sheets={pendingXlsxImport.sheets}
+          initialOptions={pendingXlsxImport.options}
+          onImport={(importOptions: XlsxImportOptions) => importFile(pendingXlsxImport.file, options => parseXlsxInWorker(pendingXlsxImport.file, importOptions, options))}
+          onCancel={() => setPendingXlsxImport(null)}
+        />
+      )}
     </div>
   );
 }
@@ -1,20 +1,32 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { AgentStatus, Message, PreviewData, Step, ConditionalFormatRule, FormattingColor } from '../types';
+import { AgentStatus, Message, PreviewData, Step, ConditionalFormatRule, FormattingColor, DiffSampleRow, Operation, HistoryEntry, EngineProgress } from '../types';
+import { normalizeFilter, describeFilter } from '../services/filterEngine';
+import { getLineage, getChildren } from '../services/historyTree';
 import { SendIcon, BotIcon, UserIcon, CheckIcon, CancelIcon, ChevronDownIcon, CodeIcon, TrashIcon, FormatIcon } from './Icons';
 
 interface AgentChatProps {
   messages: Message[];
   status: AgentStatus;
+  progress: EngineProgress | null;
+  onCancelTask: () => void;
   onSendMessage: (message: string) => void;
   previewData: PreviewData | null;
   onApply: () => void;
   onCancel: () => void;
-  steps: Step[];
+  onTogglePreviewStep: (index: number) => void;
+  history: HistoryEntry[];
+  currentEntryId: string | null;
+  headEntryId: string | null;
+  onJumpToEntry: (id: string) => void;
+  onEditStep: (index: number, params: any) => void;
+  onToggleStep: (index: number) => void;
+  onMoveStep: (index: number, offset: number) => void;
+  onDeleteStep: (index: number) => void;
   conditionalFormats: ConditionalFormatRule[];
   onRemoveFormat: (id: string) => void;
 }
 
-const StatusIndicator: React.FC<{ status: AgentStatus }> = ({ status }) => {
+const StatusIndicator: React.FC<{ status: AgentStatus; progress: EngineProgress | null; onCancelTask: () => void }> = ({ status, progress, onCancelTask }) => {
   const statusInfo = {
     [AgentStatus.Idle]: { text: 'Ready for instructions', color: 'bg-green-500' },
     [AgentStatus.Interpreting]: { text: 'Interpreting command...', color: 'bg-cyan-500' },
@@ -23,21 +35,71 @@ const StatusIndicator: React.FC<{ status: AgentStatus }> = ({ status }) => {
     [AgentStatus.Applying]: { text: 'Applying changes...', color: 'bg-purple-500' },
   };
   const { text, color } = statusInfo[status] || { text: 'Unknown', color: 'bg-gray-500' };
+  const isWorking = status === AgentStatus.Previewing || status === AgentStatus.Applying;
 
   return (
-    <div className="flex items-center gap-2 text-sm text-gray-300">
-      <span className={`w-2.5 h-2.5 rounded-full ${color} animate-pulse`}></span>
-      <span>{text}</span>
+    <div className="text-sm text-gray-300">
+      <div className="flex items-center gap-2">
+        <span className={`w-2.5 h-2.5 rounded-full ${color} animate-pulse`}></span>
+        <span>{text}</span>
+        {isWorking && (
+          <button onClick={onCancelTask} className="ml-auto px-2 py-0.5 text-xs text-gray-300 bg-gray-800 rounded hover:bg-gray-700 transition-colors">
+            Cancel
+          </button>
+        )}
+      </div>
+      {isWorking && progress && (
+        <div className="mt-2">
+          <div className="flex justify-between text-xs text-gray-400 mb-1">
+            <span className="truncate">{progress.label}</span>
+            <span>{Math.round(progress.fraction * 100)}%</span>
+          </div>
+          <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden">
+            <div className={`h-full ${color} transition-all`} style={{ width: `${Math.round(progress.fraction * 100)}%` }}></div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
 
-const ActionCard: React.FC<{ preview: PreviewData; onApply: () => void; onCancel: () => void; }> = ({ preview, onApply, onCancel }) => {
-  const { step, diff, sample } = preview;
+const formatCell = (value: any): string => (value === undefined ? '' : String(value));
+
+const DiffCell: React.FC<{ row: DiffSampleRow; header: string }> = ({ row, header }) => {
+    const value = row.values[header];
+    if (row.status !== 'modified' || !(header in row.previous)) {
+        return <td className="p-1 truncate max-w-[100px]" title={formatCell(value)}>{formatCell(value)}</td>;
+    }
+    const oldValue = row.previous[header];
+    return (
+        <td className="p-1 truncate max-w-[100px] bg-blue-900/40" title={`${formatCell(oldValue)} → ${formatCell(value)}`}>
+            {oldValue !== undefined && <span className="line-through text-red-300/80 mr-1">{formatCell(oldValue)}</span>}
+            <span className="text-green-300">{formatCell(value)}</span>
+        </td>
+    );
+};
+
+const ActionCard: React.FC<{ preview: PreviewData; onApply: () => void; onCancel: () => void; onToggleStep: (index: number) => void; }> = ({ preview, onApply, onCancel, onToggleStep }) => {
+  const { steps, enabled, explanation, diff, headers, renamedColumns, rowCount, previousRowCount, sample } = preview;
+  const previousColumnCount = headers.length - diff.columnsAdded + diff.columnsRemoved;
+  const changedColumns = Object.entries(diff.changedColumns);
+  const acceptedCount = enabled.filter(Boolean).length;
   
   return (
     <div className="bg-gray-800 border border-indigo-500/50 rounded-lg p-4 my-2 text-sm animate-fade-in">
-        <p className="font-semibold text-gray-100 mb-2">{step.explanation}</p>
+        <p className="font-semibold text-gray-100 mb-2">{explanation}</p>
+        {steps.length > 1 && (
+            <ol className="space-y-1 text-xs text-gray-300">
+                {steps.map((step, i) => (
+                    <li key={i}>
+                        <label className={`flex items-start gap-2 cursor-pointer ${enabled[i] ? '' : 'opacity-50 line-through'}`}>
+                            <input type="checkbox" checked={enabled[i]} onChange={() => onToggleStep(i)} className="mt-0.5 accent-indigo-500" />
+                            <span><span className="text-gray-500">{i + 1}.</span> <span className="font-mono text-indigo-300">{step.op}</span> &mdash; {step.explanation}</span>
+                        </label>
+                    </li>
+                ))}
+            </ol>
+        )}
         
         <div className="grid grid-cols-3 gap-2 text-center my-4">
             <div className="bg-gray-700 p-2 rounded">
@@ -54,6 +116,54 @@ const ActionCard: React.FC<{ preview: PreviewData; onApply: () => void; onCancel
             </div>
         </div>
 
+        <p className="text-xs text-gray-400 mb-3">
+            Result: <span className="text-gray-200">{rowCount.toLocaleString()}</span> rows &times; <span className="text-gray-200">{headers.length}</span> columns
+            {(rowCount !== previousRowCount || headers.length !== previousColumnCount) && (
+                <> (was {previousRowCount.toLocaleString()} &times; {previousColumnCount})</>
+            )}
+            {(diff.columnsAdded > 0 || diff.columnsRemoved > 0) && (
+                <>
+                    {' '}&middot; <span className="text-green-400">+{diff.columnsAdded}</span> / <span className="text-red-400">&minus;{diff.columnsRemoved}</span> columns
+                </>
+            )}
+        </p>
+
+        {preview.castFailures?.map(failure => (
+            <div key={failure.column} className="text-xs bg-yellow-900/30 border border-yellow-700/50 text-yellow-200 rounded p-2 mb-3">
+                <p className="font-medium">
+                    {failure.count} cell{failure.count === 1 ? '' : 's'} in {failure.column} could not be converted to {failure.target} and will be left empty.
+                </p>
+                <ul className="mt-1 text-yellow-100/80">
+                    {failure.examples.map(example => (
+                        <li key={example.row}>Row {example.row}: <span className="font-mono">{String(example.value)}</span></li>
+                    ))}
+                    {failure.count > failure.examples.length && <li>&hellip;and {failure.count - failure.examples.length} more</li>}
+                </ul>
+            </div>
+        ))}
+
+        {preview.joinStats?.map((stats, i) => (
+            <div key={i} className="text-xs bg-gray-900/50 border border-gray-700 rounded p-2 mb-3">
+                <p className="font-medium text-gray-200 mb-1">{stats.how} join with {stats.table}</p>
+                <div className="grid grid-cols-2 gap-x-4 gap-y-0.5 text-gray-400">
+                    <span>Matched rows</span><span className="text-green-400 text-right">{stats.matchedRows.toLocaleString()}</span>
+                    <span>Unmatched (main)</span><span className="text-yellow-400 text-right">{stats.unmatchedLeft.toLocaleString()}</span>
+                    <span>Unmatched (lookup)</span><span className="text-yellow-400 text-right">{stats.unmatchedRight.toLocaleString()}</span>
+                    <span>Duplicated lookup keys</span><span className={`text-right ${stats.duplicateKeys > 0 ? 'text-red-400' : 'text-gray-300'}`}>{stats.duplicateKeys.toLocaleString()}</span>
+                </div>
+                {stats.duplicateKeys > 0 && <p className="mt-1 text-red-300/80">Rows matching a duplicated key will appear more than once.</p>}
+            </div>
+        ))}
+
+        {changedColumns.length > 0 && (
+            <p className="text-xs text-gray-400 mb-3">
+                {diff.cellsModified} cell{diff.cellsModified === 1 ? '' : 's'} changed in{' '}
+                {changedColumns.map(([column, count], i) => (
+                    <span key={column}>{i > 0 && ', '}<span className="text-gray-200">{column}</span> ({count})</span>
+                ))}
+            </p>
+        )}
+
         {sample.length > 0 && (
             <details className="text-xs bg-gray-900/50 rounded p-2">
                 <summary className="cursor-pointer font-medium text-gray-300 flex items-center">
@@ -63,13 +173,17 @@ const ActionCard: React.FC<{ preview: PreviewData; onApply: () => void; onCancel
                 <table className="w-full mt-2">
                     <thead>
                         <tr className="text-left text-gray-400">
-                            {Object.keys(sample[0]).map(h => <th key={h} className="font-normal p-1">{h}</th>)}
+                            {headers.map(h => (
+                                <th key={h} className="font-normal p-1">
+                                    {renamedColumns[h] ? <><span className="line-through text-red-300/80">{renamedColumns[h]}</span> <span className="text-green-300">{h}</span></> : h}
+                                </th>
+                            ))}
                         </tr>
                     </thead>
                     <tbody>
                         {sample.map((row, i) => (
-                            <tr key={i} className={row.__status === 'added' ? 'bg-green-900/30' : row.__status === 'removed' ? 'bg-red-900/30' : ''}>
-                                {Object.keys(row).map(h => <td key={h} className="p-1 truncate max-w-[100px]">{String(row[h as keyof typeof row])}</td>)}
+                            <tr key={i} className={row.status === 'added' ? 'bg-green-900/30' : row.status === 'removed' ? 'bg-red-900/30' : ''}>
+                                {headers.map(h => <DiffCell key={h} row={row} header={h} />)}
                             </tr>
                         ))}
                     </tbody>
@@ -81,35 +195,175 @@ const ActionCard: React.FC<{ preview: PreviewData; onApply: () => void; onCancel
             <button onClick={onCancel} className="px-4 py-2 rounded-md bg-gray-600 hover:bg-gray-500 text-white flex items-center gap-2 transition-colors">
                 <CancelIcon className="w-4 h-4" /> Cancel
             </button>
-            <button onClick={onApply} className="px-4 py-2 rounded-md bg-indigo-600 hover:bg-indigo-500 text-white flex items-center gap-2 transition-colors">
-                <CheckIcon className="w-4 h-4" /> Apply
+            <button onClick={onApply} disabled={acceptedCount === 0} className="px-4 py-2 rounded-md bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white flex items-center gap-2 transition-colors">
+                <CheckIcon className="w-4 h-4" /> {steps.length > 1 ? `Apply ${acceptedCount} of ${steps.length}` : 'Apply'}
             </button>
         </div>
     </div>
   );
 };
 
-const StepsLog: React.FC<{ steps: Step[] }> = ({ steps }) => {
+const StepDetails: React.FC<{ step: Step }> = ({ step }) => (
+    step.op === Operation.Filter ? (
+        <p className="font-mono text-xs bg-gray-950 p-2 rounded-md text-gray-300 break-words">
+            KEEP ROWS WHERE {describeFilter(normalizeFilter(step.params))}
+        </p>
+    ) : (
+        <details onClick={e => e.stopPropagation()}>
+            <summary className="text-xs text-indigo-400 cursor-pointer">View params</summary>
+            <pre className="text-xs bg-gray-950 p-2 rounded-md mt-1 overflow-auto text-gray-300">{JSON.stringify(step.params, null, 2)}</pre>
+        </details>
+    )
+);
+
+interface TimelineProps {
+    history: HistoryEntry[];
+    currentEntryId: string | null;
+    headEntryId: string | null;
+    onJump: (id: string) => void;
+    onEditStep: (index: number, params: any) => void;
+    onToggleStep: (index: number) => void;
+    onMoveStep: (index: number, offset: number) => void;
+    onDeleteStep: (index: number) => void;
+    disabled: boolean;
+}
+
+const StepEditor: React.FC<{ step: Step; onSave: (params: any) => void; onCancel: () => void }> = ({ step, onSave, onCancel }) => {
+    const [draft, setDraft] = useState(() => JSON.stringify(step.params, null, 2));
+    const [error, setError] = useState<string | null>(null);
+
+    const save = () => {
+        try {
+            const params = JSON.parse(draft);
+            if (!params || typeof params !== 'object' || Array.isArray(params)) throw new Error('Params must be a JSON object.');
+            onSave(params);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    return (
+        <div onClick={e => e.stopPropagation()} className="mt-2">
+            <textarea
+                value={draft}
+                onChange={e => { setDraft(e.target.value); setError(null); }}
+                rows={Math.min(12, draft.split('\n').length + 1)}
+                spellCheck={false}
+                className="w-full font-mono text-xs bg-gray-950 border border-gray-700 rounded-md p-2 text-gray-200 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+            />
+            {error && <p className="text-xs text-red-300 mt-1">{error}</p>}
+            <div className="flex justify-end gap-2 mt-1">
+                <button onClick={onCancel} className="px-2 py-1 text-xs text-gray-300 bg-gray-700 rounded hover:bg-gray-600">Cancel</button>
+                <button onClick={save} className="px-2 py-1 text-xs text-white bg-indigo-600 rounded hover:bg-indigo-500">Save &amp; re-run</button>
+            </div>
+        </div>
+    );
+};
+
+// Renders the history tree as a timeline. The branch leading to the head runs down the main line;
+// every other branch hangs off the entry it forked from.
+const StepsLog: React.FC<TimelineProps> = ({ history, currentEntryId, headEntryId, onJump, onEditStep, onToggleStep, onMoveStep, onDeleteStep, disabled }) => {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const root = history.find(entry => entry.parentId === null);
+    const appliedIds = new Set(currentEntryId ? getLineage(history, currentEntryId).map(entry => entry.id) : []);
+    const headIds = new Set(headEntryId ? getLineage(history, headEntryId).map(entry => entry.id) : []);
+
+    const renderEntry = (entry: HistoryEntry) => {
+        const step = entry.steps[entry.steps.length - 1];
+        const isCurrent = entry.id === currentEntryId;
+        const isApplied = appliedIds.has(entry.id);
+        const index = entry.steps.length - 1;
+        // Only the pipeline on screen can be edited; other branches are just places to jump to.
+        const editable = isApplied && step && !disabled;
+        const controlClassName = "px-1.5 py-0.5 text-[11px] text-gray-400 rounded hover:bg-gray-700 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent";
+        return (
+            <li
+                key={entry.id}
+                onClick={() => onJump(entry.id)}
+                className={`mb-4 ml-6 p-2 -mt-1 rounded-md cursor-pointer hover:bg-gray-800/70 ${isCurrent ? 'bg-indigo-900/30 ring-1 ring-indigo-500/60' : ''} ${isApplied ? '' : 'opacity-50'}`}
+                title={isCurrent ? 'Current state' : 'Restore this state'}
+            >
+                <span className={`absolute flex items-center justify-center w-6 h-6 rounded-full -left-3 ring-8 ring-gray-950 ${isCurrent ? 'bg-indigo-600' : 'bg-blue-900'}`}>
+                    <CodeIcon className="w-3 h-3 text-blue-200"/>
+                </span>
+                {step ? (
+                    <>
+                        <h4 className={`flex items-center gap-2 mb-1 text-base font-semibold ${step.disabled ? 'text-gray-500 line-through' : 'text-gray-100'}`}>
+                            <span className="text-xs text-gray-500 font-normal">{entry.steps.length}.</span>
+                            {step.op}
+                            {step.disabled && <span className="text-[10px] uppercase tracking-wide text-gray-500 font-medium no-underline">off</span>}
+                            {isCurrent && <span className="text-[10px] uppercase tracking-wide text-indigo-300 font-medium">current</span>}
+                        </h4>
+                        <p className="mb-2 text-sm font-normal text-gray-400">{step.explanation}</p>
+                        {entry.stepErrors && (
+                            <div className="mb-2 p-2 text-xs rounded-md bg-red-900/30 border border-red-700/50 text-red-200">
+                                <p className="font-semibold">Skipped: this step no longer fits the table.</p>
+                                {entry.stepErrors.map((error, i) => <p key={i}>{error}</p>)}
+                            </div>
+                        )}
+                        {editingId === entry.id ? (
+                            <StepEditor
+                                step={step}
+                                onCancel={() => setEditingId(null)}
+                                onSave={params => { setEditingId(null); onEditStep(index, params); }}
+                            />
+                        ) : (
+                            <StepDetails step={step} />
+                        )}
+                        {editable && editingId !== entry.id && (
+                            <div className="flex flex-wrap gap-1 mt-2" onClick={e => e.stopPropagation()}>
+                                <button className={controlClassName} onClick={() => setEditingId(entry.id)}>Edit</button>
+                                <button className={controlClassName} onClick={() => onToggleStep(index)}>{step.disabled ? 'Enable' : 'Disable'}</button>
+                                <button className={controlClassName} onClick={() => onMoveStep(index, -1)} disabled={index === 0}>Move up</button>
+                                <button className={controlClassName} onClick={() => onMoveStep(index, 1)} disabled={index === appliedIds.size - 2}>Move down</button>
+                                <button className={`${controlClassName} hover:text-red-300`} onClick={() => onDeleteStep(index)}>Delete</button>
+                            </div>
+                        )}
+                    </>
+                ) : (
+                    <h4 className="flex items-center gap-2 text-base font-semibold text-gray-100">
+                        Original data
+                        {isCurrent && <span className="text-[10px] uppercase tracking-wide text-indigo-300 font-medium">current</span>}
+                    </h4>
+                )}
+            </li>
+        );
+    };
+
+    // Walks down from `start`, preferring the child on the way to the head (or the newest child).
+    const renderChain = (start: HistoryEntry): React.ReactNode[] => {
+        const items: React.ReactNode[] = [];
+        let entry: HistoryEntry | undefined = start;
+        while (entry) {
+            items.push(renderEntry(entry));
+            const children = getChildren(history, entry.id);
+            const next: HistoryEntry | undefined = children.find(child => headIds.has(child.id)) || children[children.length - 1];
+            children.filter(child => child !== next).forEach(branch => {
+                items.push(
+                    <li key={`branch-${branch.id}`} className="mb-4 ml-6">
+                        <details className="border-l-2 border-dashed border-gray-700 pl-3">
+                            <summary className="text-xs text-gray-400 cursor-pointer">
+                                {branch.steps.length > 1 ? `Branch after step ${branch.steps.length - 1}` : 'Branch from the original data'}: {branch.steps[branch.steps.length - 1].explanation}
+                            </summary>
+                            <ol className="relative border-l border-gray-700 ml-2 mt-3">{renderChain(branch)}</ol>
+                        </details>
+                    </li>
+                );
+            });
+            entry = next;
+        }
+        return items;
+    };
+
     return (
         <div className="p-4 text-sm">
-            <h3 className="text-lg font-bold text-gray-200 mb-4">Operation History</h3>
-            {steps.length === 0 ? (
+            <h3 className="text-lg font-bold text-gray-200 mb-1">Operation History</h3>
+            <p className="text-xs text-gray-500 mb-4">Click a step to return to it, or edit, switch off, reorder or delete it to re-run everything after it. Ctrl+Z / Ctrl+Shift+Z to undo and redo.</p>
+            {!root || history.length === 1 ? (
                 <p className="text-gray-500">No operations have been applied yet.</p>
             ) : (
                 <ol className="relative border-l border-gray-700 ml-2">
-                    {steps.map((step, index) => (
-                        <li key={index} className="mb-6 ml-6">
-                            <span className="absolute flex items-center justify-center w-6 h-6 bg-blue-900 rounded-full -left-3 ring-8 ring-gray-900">
-                                <CodeIcon className="w-3 h-3 text-blue-300"/>
-                            </span>
-                            <h4 className="flex items-center mb-1 text-base font-semibold text-gray-100">{step.op}</h4>
-                            <p className="mb-2 text-sm font-normal text-gray-400">{step.explanation}</p>
-                            <details>
-                                <summary className="text-xs text-indigo-400 cursor-pointer">View params</summary>
-                                <pre className="text-xs bg-gray-950 p-2 rounded-md mt-1 overflow-auto text-gray-300">{JSON.stringify(step.params, null, 2)}</pre>
-                            </details>
-                        </li>
-                    ))}
+                    {renderChain(root)}
                 </ol>
             )}
         </div>
@@ -151,7 +405,7 @@ const FormattingLog: React.FC<{ formats: ConditionalFormatRule[], onRemove: (id:
 }
 
 
-export const AgentChat: React.FC<AgentChatProps> = ({ messages, status, onSendMessage, previewData, onApply, onCancel, steps, conditionalFormats, onRemoveFormat }) => {
+export const AgentChat: React.FC<AgentChatProps> = ({ messages, status, progress, onCancelTask, onSendMessage, previewData, onApply, onCancel, onTogglePreviewStep, history, currentEntryId, headEntryId, onJumpToEntry, onEditStep, onToggleStep, onMoveStep, onDeleteStep, conditionalFormats, onRemoveFormat }) => {
   const [input, setInput] = useState('');
   const [activeTab, setActiveTab] = useState<'chat' | 'steps' | 'formatting'>('chat');
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -184,7 +438,9 @@ export const AgentChat: React.FC<AgentChatProps> = ({ messages, status, onSendMe
             <button onClick={() => setActiveTab('steps')} className={`py-2 px-4 text-sm font-medium ${activeTab === 'steps' ? 'border-b-2 border-indigo-500 text-white' : 'text-gray-400'}`}>History</button>
             <button onClick={() => setActiveTab('formatting')} className={`py-2 px-4 text-sm font-medium ${activeTab === 'formatting' ? 'border-b-2 border-indigo-500 text-white' : 'text-gray-400'}`}>Formatting</button>
         </div>
-        {activeTab === 'chat' && <StatusIndicator status={status} />}
+        {(activeTab === 'chat' || status === AgentStatus.Previewing || status === AgentStatus.Applying) && (
+          <StatusIndicator status={status} progress={progress} onCancelTask={onCancelTask} />
+        )}
       </header>
       
       <div className="flex-1 overflow-y-auto">
@@ -193,8 +449,9 @@ export const AgentChat: React.FC<AgentChatProps> = ({ messages, status, onSendMe
                 {messages.map((msg) => (
                     <div key={msg.id} className={`flex items-start gap-3 ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
                     {msg.sender === 'agent' && <div className="w-8 h-8 rounded-full bg-indigo-600 flex items-center justify-center shrink-0"><BotIcon className="w-5 h-5 text-white" /></div>}
-                    <div className={`max-w-sm p-3 rounded-lg text-sm ${msg.sender === 'user' ? 'bg-gray-700 text-gray-100' : 'bg-gray-800 text-gray-200'}`}>
+                    <div className={`max-w-sm p-3 rounded-lg text-sm whitespace-pre-line ${msg.sender === 'user' ? 'bg-gray-700 text-gray-100' : 'bg-gray-800 text-gray-200'}`}>
                         {msg.content}
+                        {msg.parsedBy && <p className="mt-1 text-[11px] text-gray-500">Parsed by {msg.parsedBy}</p>}
                         {msg.suggestions && msg.suggestions.length > 0 && (
                             <div className="mt-3 pt-3 border-t border-gray-700/50">
                                 <p className="text-xs text-gray-400 mb-2 font-medium">Some suggestions:</p>
@@ -216,11 +473,21 @@ export const AgentChat: React.FC<AgentChatProps> = ({ messages, status, onSendMe
                     {msg.sender === 'user' && <div className="w-8 h-8 rounded-full bg-gray-600 flex items-center justify-center shrink-0"><UserIcon className="w-5 h-5 text-white" /></div>}
                     </div>
                 ))}
-                {previewData && <ActionCard preview={previewData} onApply={onApply} onCancel={onCancel} />}
+                {previewData && <ActionCard preview={previewData} onApply={onApply} onCancel={onCancel} onToggleStep={onTogglePreviewStep} />}
                 <div ref={messagesEndRef} />
             </div>
         ) : activeTab === 'steps' ? (
-            <StepsLog steps={steps} />
+            <StepsLog
+                history={history}
+                currentEntryId={currentEntryId}
+                headEntryId={headEntryId}
+                onJump={onJumpToEntry}
+                onEditStep={onEditStep}
+                onToggleStep={onToggleStep}
+                onMoveStep={onMoveStep}
+                onDeleteStep={onDeleteStep}
+                disabled={status !== AgentStatus.Idle && status !== AgentStatus.AwaitingConfirmation}
+            />
         ) : (
             <FormattingLog formats={conditionalFormats} onRemove={onRemoveFormat} />
         )}
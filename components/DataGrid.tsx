@@ -1,6 +1,7 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { TableData, ColumnSchema, ColumnType, SortConfig, SortDirection, ConditionalFormatRule, FormattingColor } from '../types';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { TableData, ColumnSchema, ColumnType, SortConfig, SortDirection, ConditionalFormatRule, FormattingColor, CastTarget } from '../types';
 import { ArrowUpIcon, ArrowDownIcon } from './Icons';
+import { evaluateRule } from '../services/filterEngine';
 
 interface DataGridProps {
   data: TableData;
@@ -9,13 +10,41 @@ interface DataGridProps {
   onSort: (key: string) => void;
   sortConfig: SortConfig;
   conditionalFormats: ConditionalFormatRule[];
+  onTypeOverride: (column: string, target: CastTarget) => void;
 }
 
-const ROWS_PER_PAGE = 100;
+const ROW_HEIGHT = 37; // Rows have a fixed height so the visible ones can be computed from the scroll position
+const HEADER_HEIGHT = 44;
+const ROW_NUMBER_WIDTH = 80;
+const ROW_OVERSCAN = 10;
+const COLUMN_OVERSCAN = 2;
+// Browsers cap how tall an element can be (around 16M px in Firefox), so very long tables scroll
+// through a shorter spacer and map the scroll position onto the full height.
+const MAX_SCROLL_HEIGHT = 10_000_000;
 const MIN_COL_WIDTH = 60; // Minimum column width in pixels
 const DEFAULT_COL_WIDTH = 150; // Default column width in pixels
 
-const TypeBadge: React.FC<{ type: ColumnType }> = ({ type }) => {
+const CAST_TARGETS: { target: CastTarget; label: string }[] = [
+  { target: 'string', label: 'Text' },
+  { target: 'number', label: 'Number' },
+  { target: 'integer', label: 'Integer' },
+  { target: 'boolean', label: 'Boolean' },
+  { target: 'date', label: 'Date' },
+];
+
+const TypeBadge: React.FC<{ type: ColumnType; onSelect: (target: CastTarget) => void }> = ({ type, onSelect }) => {
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const badgeRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    if (!isMenuOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (badgeRef.current && !badgeRef.current.contains(event.target as Node)) setIsMenuOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isMenuOpen]);
+
   const typeInfo = {
     string: { short: 'Abc', color: 'bg-gray-600 text-gray-200', title: 'Text' },
     number: { short: '123', color: 'bg-blue-600 text-blue-100', title: 'Number' },
@@ -25,69 +54,106 @@ const TypeBadge: React.FC<{ type: ColumnType }> = ({ type }) => {
 
   const info = typeInfo[type] || typeInfo.string;
 
+  // The badge sits inside the header's sort button, so clicks must not bubble up to it.
   return (
-    <span 
-      className={`px-1.5 py-0.5 text-xs font-semibold rounded-md ${info.color}`}
-      title={info.title}
-    >
-      {info.short}
+    <span ref={badgeRef} className="relative normal-case" onClick={(e) => e.stopPropagation()}>
+      <span
+        role="button"
+        className={`px-1.5 py-0.5 text-xs font-semibold rounded-md cursor-pointer hover:ring-1 hover:ring-white/60 ${info.color}`}
+        title={`${info.title} (click to change type)`}
+        onClick={() => setIsMenuOpen(open => !open)}
+      >
+        {info.short}
+      </span>
+      {isMenuOpen && (
+        <span className="absolute left-0 top-full mt-1 w-32 flex flex-col bg-gray-800 border border-gray-700 rounded-md shadow-lg z-50 py-1">
+          <span className="px-3 py-1 text-[10px] uppercase text-gray-500">Convert to</span>
+          {CAST_TARGETS.map(({ target, label }) => (
+            <span
+              key={target}
+              role="button"
+              onClick={() => { setIsMenuOpen(false); onSelect(target); }}
+              className="px-3 py-1 text-xs text-left text-gray-200 hover:bg-gray-700 cursor-pointer"
+            >
+              {label}
+            </span>
+          ))}
+        </span>
+      )}
     </span>
   );
 };
 
-const isNumeric = (val: any): boolean => !isNaN(parseFloat(val)) && isFinite(val);
-
-const checkCondition = (cellValue: any, rule: ConditionalFormatRule): boolean => {
-    if (cellValue === null || cellValue === undefined) return false;
+// Highlight rules use the same predicates as filters, so a rule and a filter with the same condition always agree.
+const FORMAT_COLORS: Record<FormattingColor, string> = {
+    red: 'bg-red-500/20',
+    green: 'bg-green-500/20',
+    blue: 'bg-blue-500/20',
+    yellow: 'bg-yellow-500/20',
+    purple: 'bg-purple-500/20'
+};
 
-    const ruleValue = isNumeric(rule.value) ? parseFloat(rule.value as string) : rule.value;
-    const comparableCellValue = isNumeric(cellValue) ? parseFloat(cellValue) : cellValue;
+const getConditionalClassName = (cellValue: any, type: ColumnType, rules: ConditionalFormatRule[] | undefined): string => {
+    const applicableRule = rules?.find(rule => evaluateRule(rule, cellValue, type));
+    return applicableRule ? FORMAT_COLORS[applicableRule.color] : '';
+};
 
-    switch (rule.condition) {
-        case 'equals': return comparableCellValue == ruleValue;
-        case 'not_equals': return comparableCellValue != ruleValue;
-        case 'gt': return comparableCellValue > ruleValue;
-        case 'lt': return comparableCellValue < ruleValue;
-        case 'gte': return comparableCellValue >= ruleValue;
-        case 'lte': return comparableCellValue <= ruleValue;
-        case 'contains': return String(cellValue).toLowerCase().includes(String(rule.value).toLowerCase());
-        case 'not_contains': return !String(cellValue).toLowerCase().includes(String(rule.value).toLowerCase());
-        default: return false;
+// Index of the last offset at or before `position`.
+const findIndexAt = (offsets: number[], position: number): number => {
+    let low = 0;
+    let high = offsets.length - 1;
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (offsets[mid] <= position) low = mid;
+        else high = mid - 1;
     }
-}
-
-const getConditionalClassName = (cellValue: any, header: string, formats: ConditionalFormatRule[]): string => {
-    const colorMap: Record<FormattingColor, string> = {
-        red: 'bg-red-500/20',
-        green: 'bg-green-500/20',
-        blue: 'bg-blue-500/20',
-        yellow: 'bg-yellow-500/20',
-        purple: 'bg-purple-500/20'
-    };
-    
-    const applicableRule = formats.find(rule => rule.column === header && checkCondition(cellValue, rule));
-    
-    return applicableRule ? colorMap[applicableRule.color] : '';
+    return low;
 };
 
 
-export const DataGrid: React.FC<DataGridProps> = ({ data, fileName, columnSchema, onSort, sortConfig, conditionalFormats }) => {
-  const [currentPage, setCurrentPage] = useState(1);
+export const DataGrid: React.FC<DataGridProps> = ({ data, fileName, columnSchema, onSort, sortConfig, conditionalFormats, onTypeOverride }) => {
   const { headers, rows } = data;
   const [columnWidths, setColumnWidths] = useState<Record<string, number>>({});
   const [resizingColumn, setResizingColumn] = useState<string | null>(null);
-  
+  const [scroll, setScroll] = useState({ top: 0, left: 0 });
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  const [goToInput, setGoToInput] = useState('');
+  const [highlightedRow, setHighlightedRow] = useState<number | null>(null);
+
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const scrollFrameRef = useRef<number | null>(null);
   const resizingColumnRef = useRef<string | null>(null);
   const startXRef = useRef<number>(0);
   const startWidthRef = useRef<number>(0);
 
   useEffect(() => {
-    const initialWidths: Record<string, number> = {};
-    headers.forEach(header => {
-      initialWidths[header] = DEFAULT_COL_WIDTH;
+    const container = scrollRef.current;
+    if (!container) return;
+    const measure = () => setViewport({ width: container.clientWidth, height: container.clientHeight });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Edits keep the scroll position (the browser clamps it if the table got shorter); a new file starts at the top.
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: 0, left: 0 });
+    setHighlightedRow(null);
+  }, [fileName]);
+
+  useEffect(() => () => {
+    if (scrollFrameRef.current !== null) cancelAnimationFrame(scrollFrameRef.current);
+  }, []);
+
+  const handleScroll = () => {
+    if (scrollFrameRef.current !== null) return;
+    scrollFrameRef.current = requestAnimationFrame(() => {
+      scrollFrameRef.current = null;
+      const container = scrollRef.current;
+      if (container) setScroll({ top: container.scrollTop, left: container.scrollLeft });
     });
-    setColumnWidths(initialWidths);
-  }, [headers]);
+  };
 
   const handleMouseMove = useCallback((event: MouseEvent) => {
     if (!resizingColumnRef.current) return;
@@ -118,16 +184,52 @@ export const DataGrid: React.FC<DataGridProps> = ({ data, fileName, columnSchema
     document.body.style.userSelect = 'none';
   }, [columnWidths, handleMouseMove, handleMouseUp]);
 
+  // Widths survive steps that change the headers; new columns get the default.
+  const widths = useMemo(() => headers.map(header => columnWidths[header] || DEFAULT_COL_WIDTH), [headers, columnWidths]);
+  const columnOffsets = useMemo(() => {
+    const offsets: number[] = [];
+    let left = 0;
+    for (const width of widths) {
+      offsets.push(left);
+      left += width;
+    }
+    offsets.push(left);
+    return offsets;
+  }, [widths]);
+  const totalWidth = ROW_NUMBER_WIDTH + columnOffsets[headers.length];
+
+  const rulesByColumn = useMemo(() => {
+    const grouped: Record<string, ConditionalFormatRule[]> = {};
+    for (const rule of conditionalFormats) (grouped[rule.column] ||= []).push(rule);
+    return grouped;
+  }, [conditionalFormats]);
 
-  const totalPages = Math.ceil(rows.length / ROWS_PER_PAGE);
-  const startIndex = (currentPage - 1) * ROWS_PER_PAGE;
-  const endIndex = Math.min(startIndex + ROWS_PER_PAGE, rows.length);
-  const visibleRows = rows.slice(startIndex, endIndex);
+  // Vertical window. `scale` is 1 unless the table is taller than MAX_SCROLL_HEIGHT.
+  const bodyHeight = Math.max(viewport.height - HEADER_HEIGHT, 0);
+  const contentHeight = rows.length * ROW_HEIGHT;
+  const spacerHeight = Math.min(contentHeight, MAX_SCROLL_HEIGHT);
+  const scale = spacerHeight > bodyHeight && contentHeight > spacerHeight ? (contentHeight - bodyHeight) / (spacerHeight - bodyHeight) : 1;
+  const virtualTop = scroll.top * scale;
+  const firstVisibleRow = Math.min(Math.floor(virtualTop / ROW_HEIGHT), Math.max(rows.length - 1, 0));
+  const startRow = Math.max(0, firstVisibleRow - ROW_OVERSCAN);
+  const endRow = Math.min(rows.length, firstVisibleRow + Math.ceil(bodyHeight / ROW_HEIGHT) + ROW_OVERSCAN);
+  const lastVisibleRow = Math.min(rows.length, firstVisibleRow + Math.ceil(bodyHeight / ROW_HEIGHT));
 
-  const handlePageChange = (newPage: number) => {
-    if (newPage >= 1 && newPage <= totalPages) {
-      setCurrentPage(newPage);
-    }
+  // Horizontal window, in the coordinates of the scrolling columns (after the row-number column).
+  const scrollLeft = Math.max(scroll.left, 0);
+  const startColumn = Math.max(0, findIndexAt(columnOffsets, scrollLeft) - COLUMN_OVERSCAN);
+  const endColumn = Math.min(headers.length, findIndexAt(columnOffsets, scrollLeft + viewport.width) + 1 + COLUMN_OVERSCAN);
+  const visibleHeaders = headers.slice(startColumn, endColumn);
+  const leftPadding = columnOffsets[startColumn];
+
+  const goToRow = (event: React.FormEvent) => {
+    event.preventDefault();
+    const target = Math.round(Number(goToInput));
+    if (!Number.isFinite(target) || rows.length === 0) return;
+    const index = Math.min(Math.max(target, 1), rows.length) - 1;
+    scrollRef.current?.scrollTo({ top: (index * ROW_HEIGHT) / scale });
+    setHighlightedRow(index);
+    setGoToInput(String(index + 1));
   };
 
   if (!headers.length || !rows.length) {
@@ -136,84 +238,103 @@ export const DataGrid: React.FC<DataGridProps> = ({ data, fileName, columnSchema
   
   return (
     <div className="bg-gray-950 rounded-lg shadow-lg h-full flex flex-col overflow-hidden border border-gray-800">
-      <div className="p-4 border-b border-gray-800 flex justify-between items-center shrink-0">
-        <div>
+      <div className="p-4 border-b border-gray-800 flex justify-between items-center gap-4 shrink-0">
+        <div className="min-w-0">
             <h2 className="font-bold text-lg text-white truncate max-w-md">{fileName}</h2>
             <p className="text-sm text-gray-400">{rows.length.toLocaleString()} rows &times; {headers.length} columns</p>
         </div>
-        {totalPages > 1 && (
-            <div className="flex items-center gap-2 text-sm">
-                <button onClick={() => handlePageChange(currentPage - 1)} disabled={currentPage === 1} className="px-2 py-1 bg-gray-800 rounded disabled:opacity-50 hover:bg-gray-700 transition-colors">&lt;</button>
-                <span>Page {currentPage} of {totalPages}</span>
-                <button onClick={() => handlePageChange(currentPage + 1)} disabled={currentPage === totalPages} className="px-2 py-1 bg-gray-800 rounded disabled:opacity-50 hover:bg-gray-700 transition-colors">&gt;</button>
-            </div>
-        )}
+        <div className="flex items-center gap-3 text-sm shrink-0">
+            <span className="text-gray-400">Rows {(firstVisibleRow + 1).toLocaleString()}–{Math.max(lastVisibleRow, firstVisibleRow + 1).toLocaleString()}</span>
+            <form onSubmit={goToRow} className="flex items-center gap-1">
+                <input
+                    type="number"
+                    min={1}
+                    max={rows.length}
+                    value={goToInput}
+                    onChange={(e) => setGoToInput(e.target.value)}
+                    placeholder="Go to row"
+                    aria-label="Go to row"
+                    className="w-28 px-2 py-1 bg-gray-800 border border-gray-700 rounded text-gray-200 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                />
+                <button type="submit" disabled={!goToInput} className="px-2 py-1 bg-gray-800 rounded disabled:opacity-50 hover:bg-gray-700 transition-colors">Go</button>
+            </form>
+        </div>
       </div>
-      <div className="flex-1 overflow-auto">
-        <table className="w-full text-sm text-left text-gray-300 table-fixed">
-          <thead className="text-xs text-gray-400 uppercase bg-gray-800 sticky top-0 z-30">
-            <tr>
-              <th scope="col" className="px-4 py-3 font-mono font-normal text-right sticky left-0 bg-gray-800 z-40" style={{ width: '80px' }}>#</th>
-              {headers.map((header) => {
-                const schema = columnSchema[header];
-                return (
-                  <th key={header} scope="col" className="px-4 py-3 relative group" style={{ width: `${columnWidths[header]}px` }}>
-                    <button onClick={() => onSort(header)} className="flex items-center gap-2 w-full h-full text-left font-inherit color-inherit hover:text-white transition-colors">
-                      <div className="flex items-center gap-2 overflow-hidden">
-                        <span className="truncate">{header}</span>
-                        {schema && <TypeBadge type={schema.type} />}
-                      </div>
-                      {sortConfig?.key === header && (
-                        sortConfig.direction === SortDirection.Asc 
-                            ? <ArrowUpIcon className="w-4 h-4 text-gray-200 shrink-0 ml-auto" /> 
-                            : <ArrowDownIcon className="w-4 h-4 text-gray-200 shrink-0 ml-auto" />
-                      )}
-                    </button>
-                    <div
-                        onMouseDown={(e) => handleMouseDown(header, e)}
-                        className="absolute top-0 right-0 h-full w-4 cursor-col-resize z-20"
-                    >
-                         <div 
-                            className={`absolute top-1/2 -translate-y-1/2 right-2 h-1/2 w-1 rounded-full transition-all duration-200 ${
-                                resizingColumn === header 
-                                ? 'bg-indigo-500 opacity-100' 
-                                : 'bg-gray-600 opacity-0 group-hover:opacity-100'
-                            }`}
-                        />
-                    </div>
-                     {/* Custom Tooltip */}
-                    <div className="absolute left-1/2 -translate-x-1/2 top-full mt-2 w-64 bg-gray-800 border border-gray-700 text-gray-200 text-sm rounded-md shadow-lg p-3 z-30 opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200 pointer-events-none">
-                      <h4 className="font-bold text-base text-white mb-1">{header}</h4>
-                      <p className="text-xs text-gray-400 mb-2 capitalize">{schema?.type || 'string'} Data</p>
-                      <div className="border-t border-gray-700 my-2"></div>
-                      <p className={`whitespace-normal text-xs leading-relaxed ${schema?.description ? 'text-gray-300' : 'italic text-gray-500'}`}>
-                          {schema?.description ? schema.description : 'AI is generating a description...'}
-                      </p>
-                      <div className="absolute bottom-full left-1/2 -translate-x-1/2 w-0 h-0 border-l-8 border-l-transparent border-r-8 border-r-transparent border-b-8 border-b-gray-700"></div>
+      <div ref={scrollRef} onScroll={handleScroll} className="flex-1 overflow-auto" role="grid" aria-rowcount={rows.length + 1} aria-colcount={headers.length + 1}>
+        <div className="relative text-sm text-left text-gray-300" style={{ width: `${totalWidth}px`, minWidth: '100%', height: `${HEADER_HEIGHT + spacerHeight}px` }}>
+          <div role="row" className="flex text-xs text-gray-400 uppercase bg-gray-800 sticky top-0 z-30" style={{ height: `${HEADER_HEIGHT}px` }}>
+            <div role="columnheader" className="px-4 py-3 font-mono font-normal text-right sticky left-0 bg-gray-800 z-40 shrink-0" style={{ width: `${ROW_NUMBER_WIDTH}px` }}>#</div>
+            <div className="shrink-0" style={{ width: `${leftPadding}px` }}></div>
+            {visibleHeaders.map((header, i) => {
+              const schema = columnSchema[header];
+              return (
+                <div key={header} role="columnheader" aria-colindex={startColumn + i + 2} className="px-4 py-3 relative group shrink-0 font-semibold" style={{ width: `${widths[startColumn + i]}px` }}>
+                  <button onClick={() => onSort(header)} className="flex items-center gap-2 w-full h-full text-left font-inherit color-inherit hover:text-white transition-colors">
+                    <div className="flex items-center gap-2 overflow-hidden">
+                      <span className="truncate">{header}</span>
+                      {schema && <TypeBadge type={schema.type} onSelect={(target) => onTypeOverride(header, target)} />}
                     </div>
-                  </th>
-                )
-              })}
-            </tr>
-          </thead>
-          <tbody>
-            {visibleRows.map((row, rowIndex) => (
-              <tr key={startIndex + rowIndex} className="border-b border-gray-800 hover:bg-gray-800/50 group">
-                <td className="px-4 py-2 font-mono text-right text-gray-500 sticky left-0 bg-gray-950 group-hover:bg-gray-800 z-10 group-hover:z-20">{startIndex + rowIndex + 1}</td>
-                {headers.map((header) => {
+                    {sortConfig?.key === header && (
+                      sortConfig.direction === SortDirection.Asc 
+                          ? <ArrowUpIcon className="w-4 h-4 text-gray-200 shrink-0 ml-auto" /> 
+                          : <ArrowDownIcon className="w-4 h-4 text-gray-200 shrink-0 ml-auto" />
+                    )}
+                  </button>
+                  <div
+                      onMouseDown={(e) => handleMouseDown(header, e)}
+                      className="absolute top-0 right-0 h-full w-4 cursor-col-resize z-20"
+                  >
+                       <div 
+                          className={`absolute top-1/2 -translate-y-1/2 right-2 h-1/2 w-1 rounded-full transition-all duration-200 ${
+                              resizingColumn === header 
+                              ? 'bg-indigo-500 opacity-100' 
+                              : 'bg-gray-600 opacity-0 group-hover:opacity-100'
+                          }`}
+                      />
+                  </div>
+                   {/* Custom Tooltip */}
+                  <div className="absolute left-1/2 -translate-x-1/2 top-full mt-2 w-64 bg-gray-800 border border-gray-700 text-gray-200 text-sm normal-case font-normal rounded-md shadow-lg p-3 z-30 opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200 pointer-events-none">
+                    <h4 className="font-bold text-base text-white mb-1">{header}</h4>
+                    <p className="text-xs text-gray-400 mb-2 capitalize">{schema?.type || 'string'} Data</p>
+                    <div className="border-t border-gray-700 my-2"></div>
+                    <p className={`whitespace-normal text-xs leading-relaxed ${schema?.description ? 'text-gray-300' : 'italic text-gray-500'}`}>
+                        {schema?.description ? schema.description : 'AI is generating a description...'}
+                    </p>
+                    <div className="absolute bottom-full left-1/2 -translate-x-1/2 w-0 h-0 border-l-8 border-l-transparent border-r-8 border-r-transparent border-b-8 border-b-gray-700"></div>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+          {/* Rows are positioned from the virtual scroll position, so only the visible window is rendered. */}
+          {rows.slice(startRow, endRow).map((row, i) => {
+            const rowIndex = startRow + i;
+            const top = HEADER_HEIGHT + scroll.top + rowIndex * ROW_HEIGHT - virtualTop;
+            const isHighlighted = rowIndex === highlightedRow;
+            return (
+              <div
+                key={rowIndex}
+                role="row"
+                aria-rowindex={rowIndex + 2}
+                className={`absolute left-0 flex border-b border-gray-800 hover:bg-gray-800/50 group ${isHighlighted ? 'bg-indigo-500/20' : ''}`}
+                style={{ top: `${top}px`, height: `${ROW_HEIGHT}px`, width: '100%', minWidth: `${totalWidth}px` }}
+              >
+                <div className={`px-4 py-2 font-mono text-right sticky left-0 group-hover:bg-gray-800 z-10 group-hover:z-20 shrink-0 ${isHighlighted ? 'bg-indigo-950 text-indigo-300' : 'bg-gray-950 text-gray-500'}`} style={{ width: `${ROW_NUMBER_WIDTH}px` }}>{rowIndex + 1}</div>
+                <div className="shrink-0" style={{ width: `${leftPadding}px` }}></div>
+                {visibleHeaders.map((header, j) => {
                   const cellValue = row[header];
-                  const conditionalClass = getConditionalClassName(cellValue, header, conditionalFormats);
+                  const conditionalClass = getConditionalClassName(cellValue, columnSchema[header]?.type || 'string', rulesByColumn[header]);
                   return (
-                    <td key={header} className={`px-4 py-2 whitespace-nowrap truncate transition-colors ${conditionalClass}`} title={String(cellValue)}>
+                    <div key={header} role="gridcell" className={`px-4 py-2 whitespace-nowrap truncate shrink-0 transition-colors ${conditionalClass}`} style={{ width: `${widths[startColumn + j]}px` }} title={String(cellValue)}>
                       {cellValue === null ? <span className="text-gray-600 italic">null</span> : String(cellValue)}
-                    </td>
+                    </div>
                   );
                 })}
-              </tr>
-            ))}
-          </tbody>
-        </table>
+              </div>
+            );
+          })}
+        </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
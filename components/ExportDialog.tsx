@@ -0,0 +1,139 @@
+import React, { useState, useMemo } from 'react';
+import { TableData, ColumnSchema, ExportFormatId, ExportOptions } from '../types';
+import { EXPORT_FORMATS, getExportFormat } from '../services/exportFormats';
+import { CancelIcon } from './Icons';
+
+export type ExportTarget = 'download' | 'clipboard';
+
+interface ExportDialogProps {
+  data: TableData;
+  // The same rows in the grid's order; null when the grid isn't sorted.
+  sortedData: TableData | null;
+  schema: ColumnSchema;
+  initialOptions: ExportOptions;
+  onExport: (format: ExportFormatId, options: ExportOptions, target: ExportTarget) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+const DATE_FORMAT_PRESETS = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD.MM.YYYY', 'YYYY-MM-DD HH:mm:ss', 'DD/MM/YYYY HH:mm'];
+
+const inputClassName = "w-full bg-gray-900 border border-gray-700 rounded-md px-3 py-2 text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ data, sortedData, schema, initialOptions, onExport, onClose }) => {
+  const [formatId, setFormatId] = useState<ExportFormatId>('csv');
+  const [options, setOptions] = useState<ExportOptions>(initialOptions);
+  const update = (changes: Partial<ExportOptions>) => setOptions((prev: ExportOptions) => ({ ...prev, ...changes }));
+
+  const format = getExportFormat(formatId);
+  const shows = (option: keyof ExportOptions) => format.options.includes(option);
+  const source = options.useGridOrder && sortedData ? sortedData : data;
+
+  // Only the first rows are written here; the whole table is written in the background on export.
+  const preview = useMemo(
+    () => format.serialize({ headers: source.headers, rows: source.rows.slice(0, PREVIEW_ROWS) }, schema, options),
+    [format, source, schema, options],
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60" onClick={onClose}>
+      <div className="w-[760px] max-w-[95vw] max-h-[90vh] flex flex-col bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-5 text-sm" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold text-gray-100">Export data</h2>
+            <p className="text-xs text-gray-400">{data.rows.length.toLocaleString()} rows × {data.headers.length} columns.</p>
+          </div>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white rounded-md hover:bg-gray-700" aria-label="Close export">
+            <CancelIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          <label className="block">
+            <span className="block text-gray-300 mb-1">Format</span>
+            <select value={formatId} onChange={e => setFormatId(e.target.value as ExportFormatId)} className={inputClassName}>
+              {EXPORT_FORMATS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+            </select>
+          </label>
+          {shows('delimiter') && (
+            <label className="block">
+              <span className="block text-gray-300 mb-1">Delimiter</span>
+              <select value={options.delimiter} onChange={e => update({ delimiter: e.target.value })} className={inputClassName}>
+                <option value=",">Comma (,)</option>
+                <option value=";">Semicolon (;)</option>
+                <option value="|">Pipe (|)</option>
+              </select>
+            </label>
+          )}
+          {shows('quoting') && (
+            <label className="block">
+              <span className="block text-gray-300 mb-1">Quoting</span>
+              <select value={options.quoting} onChange={e => update({ quoting: e.target.value as ExportOptions['quoting'] })} className={inputClassName}>
+                <option value="minimal">Only when needed</option>
+                <option value="all">Every field</option>
+              </select>
+            </label>
+          )}
+          {shows('newline') && (
+            <label className="block">
+              <span className="block text-gray-300 mb-1">Line endings</span>
+              <select value={options.newline} onChange={e => update({ newline: e.target.value })} className={inputClassName}>
+                <option value={'\r\n'}>Windows (CRLF)</option>
+                <option value={'\n'}>Unix (LF)</option>
+              </select>
+              <span className="flex items-center gap-2 mt-2 text-gray-300">
+                <input type="checkbox" checked={options.finalNewline} onChange={e => update({ finalNewline: e.target.checked })} />
+                After the last row too
+              </span>
+            </label>
+          )}
+          {shows('nullValue') && (
+            <label className="block">
+              <span className="block text-gray-300 mb-1">Empty cells as</span>
+              <input type="text" value={options.nullValue} onChange={e => update({ nullValue: e.target.value })} placeholder="Nothing" className={inputClassName} />
+            </label>
+          )}
+          {shows('dateFormat') && (
+            <label className="block">
+              <span className="block text-gray-300 mb-1">Date format</span>
+              <input type="text" list="export-date-formats" value={options.dateFormat} onChange={e => update({ dateFormat: e.target.value })} placeholder="As in the table" className={inputClassName} />
+              <datalist id="export-date-formats">
+                {DATE_FORMAT_PRESETS.map(preset => <option key={preset} value={preset} />)}
+              </datalist>
+            </label>
+          )}
+          {shows('tableName') && (
+            <label className="block">
+              <span className="block text-gray-300 mb-1">Table name</span>
+              <input type="text" value={options.tableName} onChange={e => update({ tableName: e.target.value })} className={inputClassName} />
+            </label>
+          )}
+        </div>
+
+        <label className="flex items-start gap-2 mt-3 text-gray-300">
+          <input type="checkbox" checked={options.useGridOrder} disabled={!sortedData} onChange={e => update({ useGridOrder: e.target.checked })} className="mt-0.5" />
+          <span className={sortedData ? '' : 'opacity-50'}>
+            Rows in the grid's sort order
+            <span className="block text-xs text-gray-500">{sortedData ? 'Unchecked, rows keep the order they have in the table.' : 'The grid is not sorted, so rows keep the table order.'}</span>
+          </span>
+        </label>
+
+        <p className="text-gray-300 mt-4 mb-1">Preview <span className="text-xs text-gray-500">(first {Math.min(PREVIEW_ROWS, source.rows.length)} rows)</span></p>
+        <pre className="flex-1 min-h-0 overflow-auto p-3 text-xs text-gray-300 bg-gray-900 border border-gray-700 rounded-md whitespace-pre">{preview}</pre>
+
+        <div className="flex justify-end gap-2 mt-4">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600 transition-colors">
+            Cancel
+          </button>
+          <button onClick={() => onExport(formatId, options, 'clipboard')} className="px-4 py-2 text-sm font-medium text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600 transition-colors">
+            Copy to clipboard
+          </button>
+          <button onClick={() => onExport(formatId, options, 'download')} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-500 transition-colors">
+            Download .{format.extension}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
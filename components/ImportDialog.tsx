@@ -0,0 +1,128 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { CsvImportOptions } from '../types';
+import { CSV_DELIMITERS, CSV_ENCODINGS, readCsvSample, parseCsvText } from '../services/csvImporter';
+import { CancelIcon } from './Icons';
+import { ImportPreview, formatSize } from './ImportPreview';
+
+interface ImportDialogProps {
+  file: File;
+  initialOptions: CsvImportOptions;
+  onImport: (options: CsvImportOptions) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 15;
+
+const inputClassName = "w-full bg-gray-900 border border-gray-700 rounded-md px-3 py-2 text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const toCount = (text: string, min: number): number => Math.max(min, Math.floor(Number(text)) || min);
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ file, initialOptions, onImport, onCancel }) => {
+  const [options, setOptions] = useState<CsvImportOptions>(initialOptions);
+  const [isCustomDelimiter, setIsCustomDelimiter] = useState(!CSV_DELIMITERS.some(d => d.value === initialOptions.delimiter));
+  const [sample, setSample] = useState<string | null>(null);
+  const [sampleError, setSampleError] = useState<string | null>(null);
+  const update = (changes: Partial<CsvImportOptions>) => setOptions((prev: CsvImportOptions) => ({ ...prev, ...changes }));
+
+  // Only the start of the file is decoded, so the preview stays instant for large files.
+  useEffect(() => {
+    let isCurrent = true;
+    setSampleError(null);
+    readCsvSample(file, options.encoding)
+      .then(text => { if (isCurrent) setSample(text); })
+      .catch(err => { if (isCurrent) setSampleError(err instanceof Error ? err.message : String(err)); });
+    return () => { isCurrent = false; };
+  }, [file, options.encoding]);
+
+  const result = useMemo(() => (sample === null ? null : parseCsvText(sample, options, PREVIEW_ROWS)), [sample, options]);
+  const preview = result?.data;
+
+  const changeDelimiter = (value: string) => {
+    setIsCustomDelimiter(value === 'custom');
+    update({ delimiter: value === 'custom' ? '' : value });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60" onClick={onCancel}>
+      <div className="w-[760px] max-w-[95vw] max-h-[90vh] flex flex-col bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-5 text-sm" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold text-gray-100">Import {file.name}</h2>
+            <p className="text-xs text-gray-400">{formatSize(file.size)}. The settings below were detected from the file; adjust them until the preview looks right.</p>
+          </div>
+          <button onClick={onCancel} className="p-1 text-gray-400 hover:text-white rounded-md hover:bg-gray-700" aria-label="Close import">
+            <CancelIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          <label className="block">
+            <span className="block text-gray-300 mb-1">Delimiter</span>
+            <select value={isCustomDelimiter ? 'custom' : options.delimiter} onChange={e => changeDelimiter(e.target.value)} className={inputClassName}>
+              {CSV_DELIMITERS.map(d => <option key={d.label} value={d.value}>{d.label}</option>)}
+              <option value="custom">Other…</option>
+            </select>
+            {isCustomDelimiter && (
+              <input type="text" value={options.delimiter} onChange={e => update({ delimiter: e.target.value })} placeholder="e.g. ~" className={`${inputClassName} mt-2`} />
+            )}
+          </label>
+          <label className="block">
+            <span className="block text-gray-300 mb-1">Quote character</span>
+            <select value={options.quoteChar} onChange={e => update({ quoteChar: e.target.value })} className={inputClassName}>
+              <option value={'"'}>Double quote (")</option>
+              <option value="'">Single quote (')</option>
+            </select>
+          </label>
+          <label className="block">
+            <span className="block text-gray-300 mb-1">Encoding</span>
+            <select value={options.encoding} onChange={e => update({ encoding: e.target.value })} className={inputClassName}>
+              {CSV_ENCODINGS.map(enc => <option key={enc.value} value={enc.value}>{enc.label}</option>)}
+            </select>
+          </label>
+          <label className="block">
+            <span className="block text-gray-300 mb-1">{options.hasHeader ? 'Header row' : 'First data row'}</span>
+            <input type="number" min={1} value={options.headerRow} onChange={e => update({ headerRow: toCount(e.target.value, 1) })} className={inputClassName} />
+          </label>
+          <label className="block">
+            <span className="block text-gray-300 mb-1">Rows to skip after header</span>
+            <input type="number" min={0} value={options.skipRows} disabled={!options.hasHeader} onChange={e => update({ skipRows: toCount(e.target.value, 0) })} className={`${inputClassName} disabled:opacity-50`} />
+          </label>
+          <label className="block">
+            <span className="block text-gray-300 mb-1">Comment prefix</span>
+            <input type="text" value={options.commentPrefix} onChange={e => update({ commentPrefix: e.target.value })} placeholder="None" className={inputClassName} />
+          </label>
+        </div>
+
+        <label className="flex items-start gap-2 mt-3 text-gray-300">
+          <input type="checkbox" checked={!options.hasHeader} onChange={e => update({ hasHeader: !e.target.checked })} className="mt-0.5" />
+          <span>
+            The file has no header row
+            <span className="block text-xs text-gray-500">Columns are named column_1, column_2, … and the first row is kept as data.</span>
+          </span>
+        </label>
+        <label className="flex items-start gap-2 mt-2 text-gray-300">
+          <input type="checkbox" checked={options.keepRawValues} onChange={e => update({ keepRawValues: e.target.checked })} className="mt-0.5" />
+          <span>
+            Keep original values
+            <span className="block text-xs text-gray-500">Every cell stays exactly as written, so zip codes, long IDs and numbers like 1.50 are exported unchanged. Types still apply to sorting, filtering and formulas.</span>
+          </span>
+        </label>
+
+        <ImportPreview result={result} error={sampleError} />
+
+        <div className="flex justify-end gap-2 mt-4">
+          <button onClick={onCancel} className="px-4 py-2 text-sm font-medium text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600 transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={() => onImport(options)}
+            disabled={!preview || preview.headers.length === 0}
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-500 transition-colors disabled:opacity-50"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import { ImportResult } from '../types';
+import { describeHeaderChange } from '../services/csvImporter';
+
+interface ImportPreviewProps {
+  result: ImportResult | null;
+  error?: string | null;
+}
+
+export const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatCell = (value: any): string => (value instanceof Date ? value.toISOString() : String(value));
+
+// The first rows of a pending import, and the column names it will have to change.
+export const ImportPreview: React.FC<ImportPreviewProps> = ({ result, error }) => {
+  const preview = result?.data;
+
+  return (
+    <>
+      <div className="mt-4 flex-1 min-h-0 overflow-auto border border-gray-700 rounded-md bg-gray-900">
+        {error ? (
+          <p className="p-3 text-red-300">Could not read the file: {error}</p>
+        ) : !preview ? (
+          <p className="p-3 text-gray-400">Reading…</p>
+        ) : preview.headers.length === 0 ? (
+          <p className="p-3 text-gray-400">No rows found with these settings.</p>
+        ) : (
+          <table className="text-xs text-left text-gray-300">
+            <thead className="bg-gray-800 text-gray-400 sticky top-0">
+              <tr>
+                {preview.headers.map(header => <th key={header} className="px-2 py-1 font-semibold whitespace-nowrap">{header}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {preview.rows.map((row, i) => (
+                <tr key={i} className="border-t border-gray-800">
+                  {preview.headers.map(header => (
+                    <td key={header} className="px-2 py-1 whitespace-nowrap max-w-[200px] truncate">
+                      {row[header] === null || row[header] === undefined ? <span className="text-gray-600 italic">null</span> : formatCell(row[header])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+      {preview && preview.headers.length > 0 && (
+        <p className="text-xs text-gray-500 mt-1">{preview.headers.length} columns; showing the first {preview.rows.length} rows.</p>
+      )}
+      {result && result.headerChanges.length > 0 && (
+        <div className="mt-2 p-2 text-xs rounded-md border bg-yellow-900/30 border-yellow-700/50 text-yellow-200 max-h-24 overflow-y-auto">
+          <p className="font-semibold mb-1">Some column names will be changed:</p>
+          <ul className="list-disc list-inside space-y-0.5">
+            {result.headerChanges.map(change => <li key={`${change.column}-${change.reason}`}>{describeHeaderChange(change)}</li>)}
+          </ul>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,73 @@
+import React from 'react';
+import { SessionSummary } from '../types';
+import { HistoryIcon, TrashIcon } from './Icons';
+
+interface SessionPickerProps {
+  sessions: SessionSummary[];
+  onRestore: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatSavedAt = (savedAt: number): string => new Date(savedAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const describeSession = (session: SessionSummary): string => {
+  const size = `${session.rowCount.toLocaleString()} rows × ${session.columnCount} columns`;
+  return session.stepCount > 0
+    ? `${size} · ${session.stepCount} step${session.stepCount > 1 ? 's' : ''}, last: ${session.lastStep}`
+    : `${size} · no steps yet`;
+};
+
+export const SessionPicker: React.FC<SessionPickerProps> = ({ sessions, onRestore, onDelete }) => {
+  const [latest, ...older] = sessions;
+  if (!latest) return null;
+
+  return (
+    <div className="w-full max-w-xl mt-8 text-sm">
+      <div className="p-4 bg-gray-800 border border-indigo-500/50 rounded-lg">
+        <p className="text-gray-200 font-semibold mb-1">Restore your previous session?</p>
+        <p className="text-gray-300">{latest.fileName}</p>
+        <p className="text-xs text-gray-400 mt-1">{describeSession(latest)}</p>
+        <p className="text-xs text-gray-500 mt-1">Saved {formatSavedAt(latest.savedAt)}</p>
+        <div className="mt-3 flex items-center gap-2">
+          <button
+            onClick={() => onRestore(latest.id)}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-500 transition-colors"
+          >
+            <HistoryIcon className="w-4 h-4" />
+            Restore session
+          </button>
+          <button
+            onClick={() => onDelete(latest.id)}
+            className="px-4 py-2 text-sm font-medium text-gray-300 bg-gray-700 rounded-md hover:bg-gray-600 transition-colors"
+          >
+            Discard
+          </button>
+        </div>
+      </div>
+
+      {older.length > 0 && (
+        <div className="mt-4">
+          <p className="text-xs text-gray-400 font-medium mb-2">Recent sessions</p>
+          <ul className="space-y-2">
+            {older.map(session => (
+              <li key={session.id} className="flex items-center justify-between gap-3 p-3 bg-gray-800/60 border border-gray-700 rounded-md">
+                <button onClick={() => onRestore(session.id)} className="text-left min-w-0 flex-1 hover:text-white">
+                  <p className="text-gray-200 truncate">{session.fileName}</p>
+                  <p className="text-xs text-gray-400 truncate">{describeSession(session)}</p>
+                  <p className="text-xs text-gray-500">Saved {formatSavedAt(session.savedAt)}</p>
+                </button>
+                <button
+                  onClick={() => onDelete(session.id)}
+                  className="p-1.5 rounded-full hover:bg-gray-700 text-gray-400 hover:text-white transition-colors"
+                  aria-label={`Delete session ${session.fileName}`}
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { LLMSettings, LLMProviderId } from '../types';
+import { PROVIDER_OPTIONS, DEFAULT_OPENAI_BASE_URL, isRemoteProvider } from '../services/llmProviders';
+import { CancelIcon } from './Icons';
+
+interface SettingsPanelProps {
+  settings: LLMSettings;
+  onSave: (settings: LLMSettings) => void;
+  onClose: () => void;
+}
+
+const inputClassName = "w-full bg-gray-900 border border-gray-700 rounded-md px-3 py-2 text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<LLMSettings>(settings);
+  const update = (changes: Partial<LLMSettings>) => setDraft((prev: LLMSettings) => ({ ...prev, ...changes }));
+
+  const changeProvider = (provider: LLMProviderId) => {
+    const option = PROVIDER_OPTIONS.find(o => o.id === provider)!;
+    update({
+      provider,
+      model: option.defaultModel,
+      baseUrl: provider === 'openai' ? draft.baseUrl || DEFAULT_OPENAI_BASE_URL : undefined,
+    });
+  };
+
+  const baseUrl = draft.baseUrl || DEFAULT_OPENAI_BASE_URL;
+  const staysLocal = !isRemoteProvider({ ...draft, baseUrl });
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60" onClick={onClose}>
+      <div className="w-[460px] bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-5 text-sm" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-100">Model settings</h2>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white rounded-md hover:bg-gray-700" aria-label="Close settings">
+            <CancelIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <label className="block">
+            <span className="block text-gray-300 mb-1">Provider</span>
+            <select value={draft.provider} onChange={e => changeProvider(e.target.value as LLMProviderId)} className={inputClassName}>
+              {PROVIDER_OPTIONS.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+
+          {draft.provider !== 'mock' && (
+            <label className="block">
+              <span className="block text-gray-300 mb-1">Model</span>
+              <input type="text" value={draft.model} onChange={e => update({ model: e.target.value })} className={inputClassName} />
+            </label>
+          )}
+
+          {draft.provider === 'openai' && (
+            <label className="block">
+              <span className="block text-gray-300 mb-1">Base URL</span>
+              <input type="text" value={baseUrl} onChange={e => update({ baseUrl: e.target.value })} placeholder={DEFAULT_OPENAI_BASE_URL} className={inputClassName} />
+              <span className="block text-xs text-gray-500 mt-1">The server must expose <code>/chat/completions</code>, e.g. llama.cpp, Ollama or vLLM.</span>
+            </label>
+          )}
+
+          {draft.provider !== 'mock' && (
+            <label className="block">
+              <span className="block text-gray-300 mb-1">API key</span>
+              <input
+                type="password"
+                value={draft.apiKey || ''}
+                onChange={e => update({ apiKey: e.target.value || undefined })}
+                placeholder={draft.provider === 'gemini' ? 'Uses GEMINI_API_KEY when empty' : 'Optional for local servers'}
+                className={inputClassName}
+              />
+              <span className="flex items-center gap-2 mt-2 text-gray-300">
+                <input type="checkbox" checked={Boolean(draft.rememberApiKey)} onChange={e => update({ rememberApiKey: e.target.checked })} />
+                Remember the key on this device
+              </span>
+              <span className="block text-xs text-gray-500 mt-1">
+                {draft.rememberApiKey
+                  ? <span className="text-yellow-300">The key is saved unencrypted in this browser's storage, where other scripts on this site and anyone using this profile can read it.</span>
+                  : 'The key is forgotten when this tab is closed.'}
+              </span>
+            </label>
+          )}
+
+          <p className={`text-xs rounded-md p-2 border ${staysLocal ? 'bg-green-900/30 border-green-700/50 text-green-200' : 'bg-yellow-900/30 border-yellow-700/50 text-yellow-200'}`}>
+            {staysLocal
+              ? 'Column names and sample rows stay on this machine.'
+              : 'Column names, sample rows and your commands are sent to this provider.'}
+          </p>
+        </div>
+
+        <div className="flex justify-end gap-2 mt-5">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600 transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave({ ...draft, model: draft.model.trim() || PROVIDER_OPTIONS.find(o => o.id === draft.provider)!.defaultModel })}
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-500 transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React, { useState, useMemo } from 'react';
+import { XlsxImportOptions, XlsxSheetPreview } from '../types';
+import { buildTableFromRows, detectTableLayout } from '../services/csvImporter';
+import { CancelIcon } from './Icons';
+import { ImportPreview, formatSize } from './ImportPreview';
+
+interface XlsxImportDialogProps {
+  file: File;
+  sheets: XlsxSheetPreview[];
+  initialOptions: XlsxImportOptions;
+  onImport: (options: XlsxImportOptions) => void;
+  onCancel: () => void;
+}
+
+const inputClassName = "w-full bg-gray-900 border border-gray-700 rounded-md px-3 py-2 text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const toCount = (text: string, min: number): number => Math.max(min, Math.floor(Number(text)) || min);
+
+export const XlsxImportDialog: React.FC<XlsxImportDialogProps> = ({ file, sheets, initialOptions, onImport, onCancel }) => {
+  const [options, setOptions] = useState<XlsxImportOptions>(initialOptions);
+  const update = (changes: Partial<XlsxImportOptions>) => setOptions((prev: XlsxImportOptions) => ({ ...prev, ...changes }));
+
+  const sheet = sheets.find(s => s.name === options.sheet);
+  // The worker already read the first rows of every sheet, so the preview needs no further reading.
+  const result = useMemo(() => (sheet ? buildTableFromRows(sheet.rows, options) : null), [sheet, options]);
+  const preview = result?.data;
+
+  // Each sheet can have its own title rows, so the layout is detected again.
+  const changeSheet = (name: string) => {
+    const next = sheets.find(s => s.name === name);
+    update({ sheet: name, ...detectTableLayout(next?.rows || []) });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60" onClick={onCancel}>
+      <div className="w-[760px] max-w-[95vw] max-h-[90vh] flex flex-col bg-gray-800 border border-gray-700 rounded-lg shadow-xl p-5 text-sm" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold text-gray-100">Import {file.name}</h2>
+            <p className="text-xs text-gray-400">{formatSize(file.size)}. Choose the sheet to import and where its table starts.</p>
+          </div>
+          <button onClick={onCancel} className="p-1 text-gray-400 hover:text-white rounded-md hover:bg-gray-700" aria-label="Close import">
+            <CancelIcon className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          <label className="block">
+            <span className="block text-gray-300 mb-1">Sheet</span>
+            <select value={options.sheet} onChange={e => changeSheet(e.target.value)} className={inputClassName}>
+              {sheets.map(s => <option key={s.name} value={s.name}>{s.name} ({s.rowCount.toLocaleString()} rows)</option>)}
+            </select>
+          </label>
+          <label className="block">
+            <span className="block text-gray-300 mb-1">{options.hasHeader ? 'Header row' : 'First data row'}</span>
+            <input type="number" min={1} value={options.headerRow} onChange={e => update({ headerRow: toCount(e.target.value, 1) })} className={inputClassName} />
+          </label>
+          <label className="block">
+            <span className="block text-gray-300 mb-1">Rows to skip after header</span>
+            <input type="number" min={0} value={options.skipRows} disabled={!options.hasHeader} onChange={e => update({ skipRows: toCount(e.target.value, 0) })} className={`${inputClassName} disabled:opacity-50`} />
+          </label>
+        </div>
+
+        <label className="flex items-start gap-2 mt-3 text-gray-300">
+          <input type="checkbox" checked={!options.hasHeader} onChange={e => update({ hasHeader: !e.target.checked })} className="mt-0.5" />
+          <span>
+            The sheet has no header row
+            <span className="block text-xs text-gray-500">Columns are named column_1, column_2, … and the first row is kept as data. Empty rows are not counted.</span>
+          </span>
+        </label>
+
+        <ImportPreview result={result} />
+
+        <div className="flex justify-end gap-2 mt-4">
+          <button onClick={onCancel} className="px-4 py-2 text-sm font-medium text-gray-200 bg-gray-700 rounded-md hover:bg-gray-600 transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={() => onImport(options)}
+            disabled={!preview || preview.headers.length === 0}
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-500 transition-colors disabled:opacity-50"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,309 @@
+import { Type } from '@google/genai';
+import { Step, Operation, SortDirection, LLMSettings, ParsedCommand, CommandContext, StepIssue } from '../types';
+import { createProvider, describeProvider, isProviderConfigured, DEFAULT_LLM_SETTINGS } from './llmProviders';
+import { parseLocally, LOCAL_PARSER_EXAMPLES } from './localParser';
+import { describeCommandContext } from './commandContext';
+import { AGGREGATE_FUNCTIONS } from './aggregations';
+import { JOIN_TYPES } from './joinTables';
+import { FILTER_CONDITIONS } from './filterEngine';
+import { CAST_TARGETS } from './castValues';
+
+// Gemini schemas can't be recursive, so a filter is a group of conditions whose items may themselves be one-level groups.
+const filterRuleProperties = {
+    column: { type: Type.STRING, description: "Column the condition tests." },
+    condition: { type: Type.STRING, enum: FILTER_CONDITIONS, description: "The predicate." },
+    value: { type: Type.STRING, description: "Value for comparisons, contains, starts_with, ends_with and matches_regex. Omit for is_null / is_not_null." },
+    values: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Candidates for 'in' / 'not_in', or [min, max] for 'between'." },
+    case_sensitive: { type: Type.BOOLEAN, description: "Match letter case exactly. Equality defaults to true, text search (contains, starts_with, ...) to false." },
+};
+
+const stepSchema = {
+    type: Type.OBJECT,
+    properties: {
+        op: {
+            type: Type.STRING,
+            enum: Object.values(Operation),
+            description: 'The operation to perform.',
+        },
+        params: {
+            type: Type.OBJECT,
+            description: 'Parameters for the operation. Varies by operation type.',
+            properties: {
+                // For conditional_format & cast_column
+                column: { type: Type.STRING, description: "Column to format (conditional_format) or convert (cast_column)." },
+                condition: { type: Type.STRING, enum: ['equals', 'not_equals', 'gt', 'lt', 'gte', 'lte', 'contains', 'not_contains'], description: "The condition." },
+                value: { type: Type.STRING, description: "The value for the condition." },
+                
+                // For filter
+                logic: { type: Type.STRING, enum: ['and', 'or'], description: "How the filter's conditions combine." },
+                conditions: {
+                    type: Type.ARRAY,
+                    description: "Filter conditions. Each item is either a single condition or a nested group with its own 'logic' and 'conditions'.",
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            ...filterRuleProperties,
+                            logic: { type: Type.STRING, enum: ['and', 'or'], description: "For a nested group: how its conditions combine." },
+                            conditions: {
+                                type: Type.ARRAY,
+                                description: "For a nested group: its conditions.",
+                                items: { type: Type.OBJECT, properties: filterRuleProperties },
+                            },
+                        },
+                    },
+                },
+
+                // For sort
+                columns: { type: Type.ARRAY, items: { type: Type.STRING }, description: "List of columns to sort by." },
+                directions: { type: Type.ARRAY, items: { type: Type.STRING, enum: Object.values(SortDirection) }, description: "Sort directions (asc/desc) for each column." },
+                nulls: { type: Type.STRING, enum: ['first', 'last'], description: "Where empty values go when sorting. Defaults to 'last'." },
+                natural: { type: Type.BOOLEAN, description: "Natural text ordering (\"item2\" before \"item10\"). Defaults to true." },
+                case_sensitive: { type: Type.BOOLEAN, description: "For sort: order upper- and lower-case text separately. Defaults to false." },
+                locale: { type: Type.STRING, description: "BCP 47 locale for text ordering, e.g. 'de' or 'sv'. Omit for the browser default." },
+
+                // For dedupe
+                keys: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Columns to determine uniqueness." },
+
+                // For remove_column
+                column_to_remove: { type: Type.STRING, description: "The name of the column to remove." },
+
+                // For rename_column
+                old_name: { type: Type.STRING, description: "The current name of the column." },
+                new_name: { type: Type.STRING, description: "The new name for the column." },
+                
+                // For fill_na
+                fill_column: { type: Type.STRING, description: "Column with missing values to fill." },
+                fill_value: { type: Type.STRING, description: "Value to fill missing data with." },
+
+                // For add_column
+                new_column: { type: Type.STRING, description: "Name of the computed column to add (an existing name overwrites that column)." },
+                expression: { type: Type.STRING, description: "Formula for the new column's value in each row. Supports + - * / %, & for string concatenation, comparisons, and/or/not, if(cond, then, else), coalesce(a, b, ...), concat, upper, lower, trim, len, round(x, digits), abs, year/month/day/weekday/hour(date), days_between(start, end). Refer to columns by name, wrapping names with spaces in [brackets]. Quote text with double quotes." },
+
+                // For cast_column
+                target_type: { type: Type.STRING, enum: CAST_TARGETS, description: "The type to convert the column's values to. Uses 'column' for the column name." },
+                date_format: { type: Type.STRING, description: "For date casts only: the format the values are written in, using YYYY, YY, MM, M, DD, D, HH, mm, ss (e.g. 'DD/MM/YYYY'). Omit to auto-detect." },
+
+                // For group_by
+                group_keys: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Columns to group rows by. Each distinct combination becomes one output row." },
+                aggregations: {
+                    type: Type.ARRAY,
+                    description: "Values to compute for each group. The output table contains only the group keys and these columns.",
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            column: { type: Type.STRING, description: "Column to aggregate. Omit for a row count." },
+                            func: { type: Type.STRING, enum: AGGREGATE_FUNCTIONS, description: "Aggregation function." },
+                            as: { type: Type.STRING, description: "Name of the output column, e.g. 'total_revenue'." },
+                        },
+                        required: ['func'],
+                    },
+                },
+
+                // For pivot
+                index_columns: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Columns that identify an output row when pivoting long data to wide." },
+                pivot_column: { type: Type.STRING, description: "Column whose distinct values become the new column headers." },
+                value_column: { type: Type.STRING, description: "Column whose values fill the new columns." },
+                aggregator: { type: Type.STRING, enum: AGGREGATE_FUNCTIONS, description: "How to combine several values that land in the same cell. Defaults to 'first'." },
+
+                // For unpivot
+                id_columns: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Columns kept as-is on every output row when unpivoting wide data to long." },
+                value_columns: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Columns to melt into variable/value pairs. Omit to melt every non-id column." },
+                variable_name: { type: Type.STRING, description: "Header for the column holding the former column names. Defaults to 'variable'." },
+                value_name: { type: Type.STRING, description: "Header for the column holding the values. Defaults to 'value'." },
+
+                // For join
+                right_table: { type: Type.STRING, description: "Name of the loaded lookup table to join with." },
+                how: { type: Type.STRING, enum: JOIN_TYPES, description: "Join type. Defaults to 'left', which keeps every row of the main table." },
+                left_on: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Key columns in the main table." },
+                right_on: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Matching key columns in the lookup table, in the same order. Omit when the names are the same." },
+                suffixes: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Two suffixes appended to non-key columns that exist in both tables, for the main and lookup table respectively. Defaults to ['', '_right']." },
+
+                // For conditional_format
+                color: { type: Type.STRING, enum: ['red', 'green', 'blue', 'yellow', 'purple'], description: "The color to highlight the cells."},
+                
+                // For error
+                message: {type: Type.STRING, description: "Explanation of why the command could not be understood."},
+                suggestions: { type: Type.ARRAY, items: { type: Type.STRING }, description: "A list of 3-4 suggested commands the user could try."}
+            }
+        },
+        explanation: {
+            type: Type.STRING,
+            description: 'A brief, user-friendly explanation of the operation being performed.',
+        }
+    }
+};
+
+const responseSchema = {
+    type: Type.OBJECT,
+    properties: {
+        steps: {
+            type: Type.ARRAY,
+            items: stepSchema,
+            description: 'The ordered list of operations to perform. Later steps run on the output of earlier ones.',
+        }
+    },
+    required: ['steps']
+};
+
+const parseWithModel = async (command: string, context: CommandContext, settings: LLMSettings): Promise<Step[]> => {
+    const { headers, lookupHeaders } = context;
+    const lookupNames = Object.keys(lookupHeaders);
+    const lookupDescription = lookupNames.length > 0
+        ? `Lookup tables available for joins: ${lookupNames.map(name => `"${name}" (columns: ${lookupHeaders[name].join(', ')})`).join('; ')}.`
+        : 'No lookup tables are loaded, so joins are not possible yet.';
+
+    const systemInstruction = `You are a helpful and proactive data analysis agent. Your task is to convert natural language commands into a structured JSON format for processing CSV data. 
+    The available columns in the CSV are: ${headers.join(', ')}.
+    ${lookupDescription}
+    Analyze the user's command and generate a JSON object that matches the provided schema.
+    - To create a new column from existing ones (e.g. "add a total column = price * qty"), use 'add_column' with 'new_column' and an 'expression' such as "price * qty" or "if([Order Total] > 100, \"large\", \"small\")".
+    - To change a column's type (e.g. "treat zip as text", "convert order_date from DD/MM/YYYY to dates"), use 'cast_column' with 'column', 'target_type' and, for dates, an optional 'date_format'.
+    - For summaries such as "total revenue per region" or "number of orders per customer and month", use 'group_by' with 'group_keys' and 'aggregations' (sum, mean, min, max, count, count_distinct, first, last). Give each aggregation a readable 'as' name.
+    - To reshape long data to wide (e.g. one column per month), use 'pivot'. To reshape wide data to long (e.g. monthly columns into month/amount rows), use 'unpivot'.
+    - To bring in columns from a lookup table (e.g. "add the customer name from customers.csv by customer_id"), use 'join' with 'right_table', 'how', 'left_on' and, if the key names differ, 'right_on'.
+    - You can also apply conditional formatting. For example: "highlight cells in 'price' column green where value is > 50". Supported colors are red, green, blue, yellow, purple.
+    - Be precise with column names.
+    - Always return a 'steps' array. If the command asks for several operations (e.g. "drop duplicate emails, then sort by signup date"), return one step per operation in the order they should run. Otherwise return a single step.
+    - Later steps see the result of earlier ones, so a step after a rename must use the new column name.
+    - If the user's command is concrete and clear, generate the corresponding operation.
+    - If the user's command is ambiguous, vague, or incomplete (e.g., "clean the data", "make it look good"), DO NOT just say it's ambiguous. Instead, return a single step with the 'error' operation, provide a helpful message explaining what is needed, AND suggest 3-4 concrete, actionable commands the user could try based on the dataset's columns. Use the 'suggestions' field for this.
+    - For sorting, if no direction is specified, default to 'asc'.
+    - Sorting and comparisons follow each column's type, text sorts naturally and empty values go last. Only set 'nulls', 'natural', 'case_sensitive' or 'locale' when the user asks for it.
+    - For filtering, always use 'logic' and 'conditions', even for a single condition. Infer each condition from the user's language: 'in' for "US or CA" on one column, 'between' for ranges, 'is_null' for "no refund date" / "missing", 'starts_with', 'ends_with', 'matches_regex' for patterns. Use nested groups for mixed AND/OR logic.
+    - The prompt lists each column's type, common values and value range, the steps already applied and the recent conversation. Use them:
+      - Resolve follow-ups such as "do the same for billing", "make it descending" or "only the top ones" against the most recent steps and messages, repeating or adjusting their params.
+      - Match the actual spelling and casing of values (e.g. filter on "Electronics" if that's how the data writes it) and choose conditions that fit the column's type.
+      - Applied steps are already part of the data; don't repeat them unless asked. If the user wants to reverse one, return an 'error' step telling them to use Undo.
+    - Provide a concise, human-readable 'explanation' of the action.
+    `;
+    
+    try {
+        const parsedJson = await createProvider(settings).generateJson({
+            task: 'parse_command',
+            systemInstruction,
+            prompt: `${describeCommandContext(context)}\n\nCommand: "${command}"`,
+            schema: responseSchema,
+            input: { command, headers, lookupHeaders },
+        });
+
+        const plan: Step[] = Array.isArray(parsedJson.steps) ? parsedJson.steps : [];
+
+        // Basic validation
+        if (plan.length === 0) {
+            throw new Error('No steps in AI response.');
+        }
+        if (plan.some(step => !step.op || !Object.values(Operation).includes(step.op))) {
+            throw new Error('Invalid or missing operation in AI response.');
+        }
+
+        return plan;
+
+    } catch (error) {
+        console.error(`Error parsing command with ${settings.provider}:`, error);
+        
+        let userMessage = "Sorry, I encountered an issue processing your request. Please try rephrasing.";
+
+        if (error instanceof Error) {
+            if (error.message.includes('429') || error.message.includes('RESOURCE_EXHAUSTED')) {
+                userMessage = "You have exceeded your API quota. Please wait a moment before trying again or check your billing details with your model provider.";
+            } else if (error.message.includes('API_KEY_INVALID') || error.message.startsWith('401')) {
+                 userMessage = "The provided API key is invalid. Please check your configuration.";
+            } else if (error.message.startsWith('Could not reach')) {
+                userMessage = error.message;
+            } else {
+                // Keep it clean for the user, but devs can see the console.
+                userMessage = `An error occurred while communicating with the AI. Please check the console for details.`;
+            }
+        }
+
+        return [{
+            op: Operation.Error,
+            params: { message: userMessage },
+            explanation: "Failed to process the command."
+        }];
+    }
+};
+
+export const LOCAL_PARSER_NAME = 'built-in rules';
+
+/**
+ * Turns a command into steps. The built-in grammar is tried first, so simple commands never leave the
+ * browser; anything it can't parse goes to the configured model, if there is one. So do built-in
+ * steps that `validate` rejects, when a model is configured to try instead.
+ */
+export const parseCommand = async (
+    command: string,
+    context: CommandContext,
+    settings: LLMSettings = DEFAULT_LLM_SETTINGS,
+    validate?: (steps: Step[]) => Promise<StepIssue[]>,
+): Promise<ParsedCommand> => {
+    const { headers } = context;
+    const localSteps = parseLocally(command, headers);
+    if (localSteps && !(validate && isProviderConfigured(settings) && (await validate(localSteps)).length > 0)) {
+        return { steps: localSteps, parsedBy: LOCAL_PARSER_NAME };
+    }
+
+    if (!isProviderConfigured(settings)) {
+        const examples = LOCAL_PARSER_EXAMPLES.map(example => example.replace('{col}', headers[0] || 'column'));
+        return {
+            steps: [{
+                op: Operation.Error,
+                params: {
+                    message: "No API key is set, so only the built-in parser is available and it didn't recognise that command. Add a key or choose another model in Settings, or try one of these forms:",
+                    suggestions: examples,
+                },
+                explanation: 'No model configured.',
+            }],
+            parsedBy: LOCAL_PARSER_NAME,
+        };
+    }
+
+    return { steps: await parseWithModel(command, context, settings), parsedBy: describeProvider(settings) };
+};
+
+
+const descriptionSchema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            columnName: { type: Type.STRING, description: 'The name of the column header.' },
+            description: { type: Type.STRING, description: 'A concise, one-sentence description of the column.' }
+        },
+        required: ['columnName', 'description']
+    }
+};
+
+export const generateColumnDescriptions = async (headers: string[], rows: Record<string, any>[], settings: LLMSettings = DEFAULT_LLM_SETTINGS): Promise<Record<string, string>> => {
+    if (!isProviderConfigured(settings)) return {};
+    const sample = rows.slice(0, 5).map(row => headers.map(h => row[h]));
+
+    const systemInstruction = `You are a helpful data analyst. Your task is to generate a concise, one-sentence description for each column in a CSV file based on its name and a sample of its data.
+    The response must be a JSON array of objects, where each object contains "columnName" and "description" keys.
+    The description should explain the likely purpose or content of the column.
+    Do not add any extra text or explanation outside of the JSON array.`;
+
+    const contents = `Column Headers: ${JSON.stringify(headers)}\nData Sample (rows):\n${JSON.stringify(sample)}`;
+
+    try {
+        const parsedJson: { columnName: string, description: string }[] = await createProvider(settings).generateJson({
+            task: 'describe_columns',
+            systemInstruction,
+            prompt: contents,
+            schema: descriptionSchema,
+            input: { headers, rows: rows.slice(0, 5) },
+        });
+
+        const descriptions: Record<string, string> = {};
+        for (const item of parsedJson) {
+            if (headers.includes(item.columnName)) {
+                descriptions[item.columnName] = item.description;
+            }
+        }
+        return descriptions;
+
+    } catch (error) {
+        console.error(`Error generating column descriptions with ${settings.provider}:`, error);
+        return {};
+    }
+};
@@ -0,0 +1,55 @@
+import { AggregateFunction, Aggregation } from '../types';
+import { castValue } from './castValues';
+
+export const AGGREGATE_FUNCTIONS: AggregateFunction[] = ['sum', 'mean', 'min', 'max', 'count', 'count_distinct', 'first', 'last'];
+
+const isEmpty = (val: any): boolean => val === null || val === undefined || val === '';
+
+// Parses like cast_column does, so "1,000" is 1000 and "12abc" is not a number at all (NaN).
+const toNumber = (val: any): number => {
+    const { ok, value } = castValue(val, 'number');
+    return ok && value !== null ? value : NaN;
+};
+
+// Compares numerically when both values are numbers, otherwise as text (which also orders ISO dates).
+const compare = (a: any, b: any): number => {
+    const numA = toNumber(a);
+    const numB = toNumber(b);
+    if (isFinite(numA) && isFinite(numB)) return numA - numB;
+    return String(a).localeCompare(String(b));
+};
+
+// Reduces a column's values within one group. Empty cells are ignored by every function except `count`
+// without a column, which counts rows; `sum` and `mean` also skip values that aren't numbers.
+export const aggregate = (values: any[], func: AggregateFunction): any => {
+    const present = values.filter(v => !isEmpty(v));
+
+    switch (func) {
+        case 'count':
+            return present.length;
+        case 'count_distinct':
+            return new Set(present.map(v => String(v))).size;
+        case 'first':
+            return present.length > 0 ? present[0] : null;
+        case 'last':
+            return present.length > 0 ? present[present.length - 1] : null;
+        case 'min':
+            return present.length > 0 ? present.reduce((min, v) => (compare(v, min) < 0 ? v : min)) : null;
+        case 'max':
+            return present.length > 0 ? present.reduce((max, v) => (compare(v, max) > 0 ? v : max)) : null;
+        case 'sum':
+        case 'mean': {
+            const numbers = present.map(toNumber).filter(n => isFinite(n));
+            if (numbers.length === 0) return null;
+            const sum = numbers.reduce((total, n) => total + n, 0);
+            return func === 'sum' ? sum : sum / numbers.length;
+        }
+        default:
+            return null;
+    }
+};
+
+export const getAggregationName = (aggregation: Aggregation): string => {
+    if (aggregation.as) return aggregation.as;
+    return aggregation.column ? `${aggregation.func}_${aggregation.column}` : aggregation.func;
+};
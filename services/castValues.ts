@@ -0,0 +1,168 @@
+import { CastTarget, ColumnType } from '../types';
+
+export interface CastResult {
+    ok: boolean;
+    value: any;
+}
+
+export const CAST_TARGETS: CastTarget[] = ['string', 'number', 'integer', 'boolean', 'date'];
+
+const isBlank = (val: any): boolean => val === null || val === undefined || String(val).trim() === '';
+
+const TRUE_VALUES = ['true', 't', 'yes', 'y', '1', 'on'];
+const FALSE_VALUES = ['false', 'f', 'no', 'n', '0', 'off'];
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+// Accepts "1,234.50", "$ 99" and "-12" but not "12abc".
+const parseNumber = (val: any): number | null => {
+    if (typeof val === 'number') return isFinite(val) ? val : null;
+    if (typeof val === 'boolean') return val ? 1 : 0;
+    const cleaned = String(val).trim().replace(/^[$€£¥]\s*/, '').replace(/,(?=\d{3}(\D|$))/g, '');
+    if (cleaned === '' || !/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(cleaned)) return null;
+    return Number(cleaned);
+};
+
+const DATE_TOKENS: Record<string, string> = {
+    YYYY: '(\\d{4})',
+    YY: '(\\d{2})',
+    MM: '(\\d{1,2})',
+    M: '(\\d{1,2})',
+    DD: '(\\d{1,2})',
+    D: '(\\d{1,2})',
+    HH: '(\\d{1,2})',
+    mm: '(\\d{2})',
+    ss: '(\\d{2})',
+};
+
+// Turns a pattern such as "DD/MM/YYYY HH:mm" into a regex plus the order of its captured parts.
+const compileDateFormat = (format: string): { regex: RegExp; parts: string[] } => {
+    const parts: string[] = [];
+    let pattern = '';
+    let i = 0;
+    while (i < format.length) {
+        const token = Object.keys(DATE_TOKENS).find(t => format.startsWith(t, i));
+        if (token) {
+            parts.push(token);
+            pattern += DATE_TOKENS[token];
+            i += token.length;
+        } else {
+            pattern += format[i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            i++;
+        }
+    }
+    return { regex: new RegExp(`^${pattern}$`), parts };
+};
+
+const toIsoDate = (year: number, month: number, day: number, hours?: number, minutes?: number, seconds?: number): string | null => {
+    const d = new Date(year, month - 1, day, hours || 0, minutes || 0, seconds || 0);
+    if (d.getFullYear() !== year || d.getMonth() !== month - 1 || d.getDate() !== day) return null; // e.g. 31/02
+    const date = `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+    return hours === undefined ? date : `${date}T${pad(hours)}:${pad(minutes || 0)}:${pad(seconds || 0)}`;
+};
+
+const LOOSE_DATE_SHAPES = [
+    // ISO date-times: 2024-03-05T14:00, 2024-03-05 14:00:00Z
+    /^\d{4}-\d{1,2}-\d{1,2}[T ]\d{1,2}:\d{2}/,
+    // Numeric dates with a separator and a time or not: 03/05/2024, 3-5-24 14:00
+    /^\d{1,2}[/.-]\d{1,2}[/.-](\d{2}|\d{4})(\s+\d{1,2}:\d{2}(:\d{2})?(\s*[ap]m)?)?$/i,
+    // A month name and a four-digit year: March 5, 2024; 5 Mar 2024; Tue Mar 05 2024
+    /^(?=.*\b\d{4}\b)(?=.*\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\b)[\w\s,.:+-]+$/i,
+];
+
+const parseDate = (val: any, format?: string): string | null => {
+    const str = String(val).trim();
+
+    if (format) {
+        const { regex, parts } = compileDateFormat(format);
+        const match = regex.exec(str);
+        if (!match) return null;
+        const values: Record<string, number> = {};
+        parts.forEach((part, i) => {
+            values[part] = parseInt(match[i + 1], 10);
+        });
+        const year = values.YYYY ?? (values.YY !== undefined ? 2000 + values.YY : NaN);
+        const month = values.MM ?? values.M;
+        const day = values.DD ?? values.D ?? 1;
+        const hasTime = values.HH !== undefined;
+        return toIsoDate(year, month, day, hasTime ? values.HH : undefined, values.mm, values.ss);
+    }
+
+    // Date-only ISO strings parse as UTC midnight, which local getters can shift by a day.
+    const isoMatch = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/.exec(str);
+    if (isoMatch) return toIsoDate(Number(isoMatch[1]), Number(isoMatch[2]), Number(isoMatch[3]));
+
+    // Date() accepts almost anything ("1" is 2001-01-01), so only shapes that read as dates get that far.
+    if (!LOOSE_DATE_SHAPES.some(shape => shape.test(str))) return null;
+    const d = new Date(str);
+    if (isNaN(d.getTime())) return null;
+    const hasTime = /\d{1,2}:\d{2}/.test(str);
+    return toIsoDate(d.getFullYear(), d.getMonth() + 1, d.getDate(), hasTime ? d.getHours() : undefined, d.getMinutes(), d.getSeconds());
+};
+
+// The reverse of parsing with a pattern: writes an ISO date such as "2024-03-01T09:30:00" as "01/03/2024 09:30".
+export const formatDate = (iso: string, format: string): string => {
+    const [year, month, day, hours = 0, minutes = 0, seconds = 0] = iso.split(/[-T:]/).map(Number);
+    const values: Record<string, string> = {
+        YYYY: pad(year, 4),
+        YY: pad(year % 100),
+        MM: pad(month),
+        M: String(month),
+        DD: pad(day),
+        D: String(day),
+        HH: pad(hours),
+        mm: pad(minutes),
+        ss: pad(seconds),
+    };
+    let result = '';
+    let i = 0;
+    while (i < format.length) {
+        const token = Object.keys(DATE_TOKENS).find(t => format.startsWith(t, i));
+        result += token ? values[token] : format[i];
+        i += token ? token.length : 1;
+    }
+    return result;
+};
+
+// A cell as a Date in local time, read the way a date cast reads it, so "2024-03-01" is the 1st everywhere.
+export const toLocalDate = (val: any): Date | null => {
+    if (val instanceof Date) return isNaN(val.getTime()) ? null : val;
+    if (isBlank(val)) return null;
+    const iso = parseDate(val);
+    if (iso === null) return null;
+    const [year, month, day, hours = 0, minutes = 0, seconds = 0] = iso.split(/[-T:]/).map(Number);
+    return new Date(year, month - 1, day, hours, minutes, seconds);
+};
+
+// Converts one cell. Blank cells stay blank (null) and are not failures.
+export const castValue = (val: any, target: CastTarget, dateFormat?: string): CastResult => {
+    if (isBlank(val)) return { ok: true, value: null };
+
+    switch (target) {
+        case 'string':
+            return { ok: true, value: String(val) };
+        case 'number': {
+            const n = parseNumber(val);
+            return n === null ? { ok: false, value: null } : { ok: true, value: n };
+        }
+        case 'integer': {
+            const n = parseNumber(val);
+            // "3.7" fails rather than rounding, so the cast never loses data without counting it.
+            return n === null || !Number.isInteger(n) ? { ok: false, value: null } : { ok: true, value: n };
+        }
+        case 'boolean': {
+            const lower = String(val).trim().toLowerCase();
+            if (TRUE_VALUES.includes(lower)) return { ok: true, value: true };
+            if (FALSE_VALUES.includes(lower)) return { ok: true, value: false };
+            return { ok: false, value: null };
+        }
+        case 'date': {
+            const iso = parseDate(val, dateFormat);
+            return iso === null ? { ok: false, value: null } : { ok: true, value: iso };
+        }
+        default:
+            return { ok: false, value: null };
+    }
+};
+
+export const castTargetToColumnType = (target: CastTarget): ColumnType => (target === 'integer' ? 'number' : target);
@@ -0,0 +1,83 @@
+import { TableData, ColumnSchema, ColumnProfile, CommandContext, LookupTables, Message, Step } from '../types';
+import { compareValues } from './comparison';
+
+const MAX_MESSAGES = 8;
+const MAX_STEPS = 10;
+const MAX_TOP_VALUES = 5;
+const MAX_VALUE_LENGTH = 40;
+// Profiling runs on every command, so large tables are only sampled.
+const MAX_PROFILED_ROWS = 1000;
+
+const isEmpty = (val: any): boolean => val === null || val === undefined || String(val).trim() === '';
+
+const clip = (text: string, length: number): string => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+export const profileColumns = (data: TableData, schema: ColumnSchema): Record<string, ColumnProfile> => {
+    const profile: Record<string, ColumnProfile> = {};
+    const rows = data.rows.slice(0, MAX_PROFILED_ROWS);
+    for (const header of data.headers) {
+        const type = schema[header]?.type || 'string';
+        const counts = new Map<string, number>();
+        let empty = 0;
+        let min: any = undefined;
+        let max: any = undefined;
+
+        for (const row of rows) {
+            const value = row[header];
+            if (isEmpty(value)) {
+                empty++;
+                continue;
+            }
+            const key = String(value);
+            counts.set(key, (counts.get(key) || 0) + 1);
+            if (type === 'number' || type === 'date') {
+                if (min === undefined || compareValues(value, min, type) < 0) min = value;
+                if (max === undefined || compareValues(value, max, type) > 0) max = value;
+            }
+        }
+
+        const topValues = [...counts.entries()]
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, MAX_TOP_VALUES)
+            .map(([value]) => clip(value, MAX_VALUE_LENGTH));
+
+        profile[header] = { type, empty, distinct: counts.size, topValues };
+        if (min !== undefined) {
+            profile[header].min = String(min);
+            profile[header].max = String(max);
+        }
+    }
+    return profile;
+};
+
+export const buildCommandContext = (data: TableData, schema: ColumnSchema, messages: Message[], steps: Step[], lookups: LookupTables): CommandContext => ({
+    headers: data.headers,
+    lookupHeaders: Object.fromEntries(Object.entries(lookups).map(([name, lookup]) => [name, lookup.headers])),
+    messages: messages.slice(-MAX_MESSAGES).map(({ sender, content }) => ({ sender, content: clip(content, 300) })),
+    steps: steps.slice(-MAX_STEPS),
+    profile: profileColumns(data, schema),
+    rowCount: data.rows.length,
+    profiledRows: Math.min(data.rows.length, MAX_PROFILED_ROWS),
+});
+
+const describeProfile = (header: string, column: ColumnProfile): string => {
+    const parts = [`${column.type}`, `${column.distinct} distinct`];
+    if (column.empty > 0) parts.push(`${column.empty} empty`);
+    if (column.min !== undefined) parts.push(`range ${column.min} … ${column.max}`);
+    if (column.topValues.length > 0) parts.push(`e.g. ${column.topValues.map(v => JSON.stringify(v)).join(', ')}`);
+    return `- ${header}: ${parts.join('; ')}`;
+};
+
+// Renders the context as prompt text. Steps are JSON so the model can copy and adjust their params.
+export const describeCommandContext = (context: CommandContext): string => {
+    const sections = [
+        `Columns (type; distinct values; empty cells; range; most common values)${context.profiledRows < context.rowCount ? `, from the first ${context.profiledRows} of ${context.rowCount} rows` : ''}:\n${context.headers.map(h => describeProfile(h, context.profile[h])).join('\n')}`,
+    ];
+    if (context.steps.length > 0) {
+        sections.push(`Steps applied so far, oldest first:\n${context.steps.map((step, i) => `${i + 1}. ${JSON.stringify({ op: step.op, params: step.params })}`).join('\n')}`);
+    }
+    if (context.messages.length > 0) {
+        sections.push(`Recent conversation, oldest first:\n${context.messages.map(m => `${m.sender === 'user' ? 'User' : 'Agent'}: ${m.content}`).join('\n')}`);
+    }
+    return sections.join('\n\n');
+};
@@ -0,0 +1,126 @@
+import { ColumnType, ColumnSchema, CompareOptions, SortDirection, TableData } from '../types';
+import { castValue } from './castValues';
+import { inferColumnTypes } from './typeDetector';
+
+// Comparable form of a cell: numbers for numeric, date and boolean columns, strings for text
+// and for values that don't parse as the column's type. Null means empty.
+type CompareKey = number | string | null;
+
+const isEmpty = (val: any): boolean => val === null || val === undefined || (typeof val === 'string' && val.trim() === '');
+
+const toTimestamp = (val: any): number | null => {
+    if (val instanceof Date) return isNaN(val.getTime()) ? null : val.getTime();
+    const { ok, value } = castValue(val, 'date');
+    if (!ok || value === null) return null;
+    // castValue returns local ISO strings ("2024-03-05" or "2024-03-05T14:00:00"); build the date locally too.
+    const [y, m, d, hh = 0, mm = 0, ss = 0] = (value as string).split(/[-T:]/).map(Number);
+    return new Date(y, m - 1, d, hh, mm, ss).getTime();
+};
+
+export const toCompareKey = (val: any, type: ColumnType): CompareKey => {
+    if (isEmpty(val)) return null;
+    switch (type) {
+        case 'number': {
+            const { ok, value } = castValue(val, 'number');
+            return ok ? value : String(val);
+        }
+        case 'date': {
+            const time = toTimestamp(val);
+            return time === null ? String(val) : time;
+        }
+        case 'boolean': {
+            const { ok, value } = castValue(val, 'boolean');
+            return ok ? (value ? 1 : 0) : String(val);
+        }
+        default:
+            return String(val);
+    }
+};
+
+const collators = new Map<string, Intl.Collator>();
+
+const getCollator = (options: CompareOptions): Intl.Collator => {
+    const cacheKey = `${options.locale || ''}|${options.natural !== false}|${Boolean(options.caseSensitive)}`;
+    let collator = collators.get(cacheKey);
+    if (!collator) {
+        collator = new Intl.Collator(options.locale || undefined, {
+            numeric: options.natural !== false, // "item2" < "item10"
+            sensitivity: options.caseSensitive ? 'variant' : 'accent',
+        });
+        collators.set(cacheKey, collator);
+    }
+    return collator;
+};
+
+// Orders two non-null keys. Parsed values sort before values that failed to parse.
+const compareParsed = (a: number | string, b: number | string, options: CompareOptions): number => {
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    if (typeof a === 'number') return -1;
+    if (typeof b === 'number') return 1;
+    return getCollator(options).compare(a, b);
+};
+
+// Empty keys ignore the direction, so nulls stay first or last whichever way the column is sorted.
+const compareKeys = (a: CompareKey, b: CompareKey, options: CompareOptions, direction: 1 | -1): number => {
+    if (a === null || b === null) {
+        if (a === b) return 0;
+        const nullsFirst = options.nulls === 'first';
+        return a === null ? (nullsFirst ? -1 : 1) : (nullsFirst ? 1 : -1);
+    }
+    return compareParsed(a, b, options) * direction;
+};
+
+/**
+ * Compares two cells of a column. Empty cells go first or last according to `options.nulls`
+ * (last by default).
+ */
+export const compareValues = (a: any, b: any, type: ColumnType, options: CompareOptions = {}): number => {
+    return compareKeys(toCompareKey(a, type), toCompareKey(b, type), options, 1);
+};
+
+// Equality for filters and highlight rules. Text is compared exactly (not naturally, so "01" ≠ "1").
+export const valuesEqual = (a: any, b: any, type: ColumnType, options: CompareOptions = {}): boolean => {
+    const keyA = toCompareKey(a, type);
+    const keyB = toCompareKey(b, type);
+    if (keyA === null || keyB === null) return keyA === keyB;
+    if (typeof keyA === 'number' && typeof keyB === 'number') return keyA === keyB;
+    const textA = String(keyA);
+    const textB = String(keyB);
+    return options.caseSensitive === false
+        ? textA.toLocaleLowerCase(options.locale) === textB.toLocaleLowerCase(options.locale)
+        : textA === textB;
+};
+
+export interface SortColumn {
+    column: string;
+    type: ColumnType;
+    direction: SortDirection;
+}
+
+// Builds a multi-column row comparator. Keys are computed once per row, not once per comparison.
+export const createRowComparator = <T extends Record<string, any>>(rows: T[], columns: SortColumn[], options: CompareOptions = {}) => {
+    const keys = new Map<T, CompareKey[]>();
+    for (const row of rows) {
+        keys.set(row, columns.map(c => toCompareKey(row[c.column], c.type)));
+    }
+    return (a: T, b: T): number => {
+        const keysA = keys.get(a)!;
+        const keysB = keys.get(b)!;
+        for (let i = 0; i < columns.length; i++) {
+            const result = compareKeys(keysA[i], keysB[i], options, columns[i].direction === SortDirection.Desc ? -1 : 1);
+            if (result !== 0) return result;
+        }
+        return 0;
+    };
+};
+
+// Column types from the schema, falling back to inference for columns it doesn't describe.
+export const resolveColumnTypes = (data: TableData, columns: string[], schema: ColumnSchema = {}): Record<string, ColumnType> => {
+    const types: Record<string, ColumnType> = {};
+    const unknown = columns.filter(c => !schema[c]);
+    const inferred = unknown.length > 0 ? inferColumnTypes(data.rows, unknown) : {};
+    columns.forEach(c => {
+        types[c] = schema[c]?.type || inferred[c] || 'string';
+    });
+    return types;
+};
@@ -0,0 +1,263 @@
+import Papa from 'papaparse';
+import { CsvImportOptions, ImportResult, HeaderChange, TableLayout } from '../types';
+import { assignRowIds } from './diffEngine';
+import { looksLikeIdentifier } from './typeDetector';
+
+// Enough of the file to detect its format and show a preview without reading all of it.
+const SAMPLE_BYTES = 64 * 1024;
+const DETECTION_ROWS = 20;
+
+export const DEFAULT_CSV_IMPORT_OPTIONS: CsvImportOptions = {
+    delimiter: '',
+    quoteChar: '"',
+    encoding: 'utf-8',
+    hasHeader: true,
+    headerRow: 1,
+    skipRows: 0,
+    commentPrefix: '',
+    keepRawValues: true,
+};
+
+export const CSV_DELIMITERS: { value: string; label: string }[] = [
+    { value: '', label: 'Detect automatically' },
+    { value: ',', label: 'Comma (,)' },
+    { value: ';', label: 'Semicolon (;)' },
+    { value: '\t', label: 'Tab' },
+    { value: '|', label: 'Pipe (|)' },
+];
+
+export const CSV_ENCODINGS: { value: string; label: string }[] = [
+    { value: 'utf-8', label: 'UTF-8' },
+    { value: 'windows-1252', label: 'Latin-1 (Windows-1252)' },
+    { value: 'iso-8859-15', label: 'Latin-9 (ISO-8859-15)' },
+    { value: 'utf-16le', label: 'UTF-16 LE' },
+    { value: 'utf-16be', label: 'UTF-16 BE' },
+];
+
+// The same conversions as Papa's dynamicTyping, except that identifiers stay text. The header row is
+// parsed as well, so typing is applied here, once the header has been taken out.
+const FLOAT = /^\s*-?(\d+\.?|\.\d+|\d+\.\d+)([eE][-+]?\d+)?\s*$/;
+const ISO_DATE = /^\d{4}-[01]\d-[0-3]\dT[0-2]\d:[0-5]\d(:[0-5]\d(\.\d+)?)?([+-][0-2]\d:[0-5]\d|Z)$/;
+const MAX_SAFE_FLOAT = Math.pow(2, 53);
+
+const typeValue = (value: string): any => {
+    if (looksLikeIdentifier(value)) return value;
+    if (value === 'true' || value === 'TRUE') return true;
+    if (value === 'false' || value === 'FALSE') return false;
+    if (FLOAT.test(value)) {
+        const number = parseFloat(value);
+        if (number > -MAX_SAFE_FLOAT && number < MAX_SAFE_FLOAT) return number;
+    }
+    if (ISO_DATE.test(value)) return new Date(value);
+    return value === '' ? null : value;
+};
+
+// Names that would clash with the plain objects rows are stored in.
+const RESERVED_NAMES = ['__proto__', 'constructor', 'prototype'];
+
+const generatedName = (index: number) => `column_${index + 1}`;
+
+const uniqueName = (name: string, taken: Set<string>): string => {
+    let candidate = name;
+    for (let n = 2; taken.has(candidate); n++) candidate = `${name}_${n}`;
+    return candidate;
+};
+
+/**
+ * Makes header names usable as row keys: trims them, names blank and reserved ones after their
+ * position, and suffixes repeats ("name", "name_2"). Names already in the file are never taken by a
+ * generated one.
+ */
+export const sanitizeHeaders = (names: string[]): { headers: string[]; changes: HeaderChange[] } => {
+    const trimmed = names.map(name => String(name ?? '').trim());
+    const taken = new Set(trimmed.filter(name => name && !RESERVED_NAMES.includes(name)));
+    const used = new Set<string>();
+    const changes: HeaderChange[] = [];
+
+    const headers = trimmed.map((name, i) => {
+        const original = String(names[i] ?? '');
+        let renamed = name;
+        let reason: HeaderChange['reason'] | null = name !== original ? 'trimmed' : null;
+        if (!name || RESERVED_NAMES.includes(name)) {
+            renamed = uniqueName(generatedName(i), new Set([...taken, ...used]));
+            reason = name ? 'reserved' : 'blank';
+        } else if (used.has(name)) {
+            renamed = uniqueName(name, new Set([...taken, ...used]));
+            reason = 'duplicate';
+        }
+        used.add(renamed);
+        if (reason) changes.push({ column: i + 1, original, renamed, reason });
+        return renamed;
+    });
+    return { headers, changes };
+};
+
+export const describeHeaderChange = (change: HeaderChange): string => {
+    switch (change.reason) {
+        case 'blank': return `Column ${change.column} had no name; it is now "${change.renamed}".`;
+        case 'duplicate': return `Column ${change.column} repeated "${change.original.trim()}"; it is now "${change.renamed}".`;
+        case 'trimmed': return `Column ${change.column} "${change.original}" had surrounding spaces; it is now "${change.renamed}".`;
+        case 'reserved': return `Column ${change.column} "${change.original}" can't be used as a name; it is now "${change.renamed}".`;
+        case 'missing': return `Some rows have more values than the header; the extra column ${change.column} is "${change.renamed}".`;
+    }
+};
+
+// The chat warning shown after an import that had to change column names.
+export const formatHeaderChanges = (fileName: string, changes: HeaderChange[]): string => {
+    const noun = changes.length > 1 ? 'column names' : 'a column name';
+    return `Heads up: I changed ${noun} in ${fileName} so every column can be referred to:\n${changes.map(change => `- ${describeHeaderChange(change)}`).join('\n')}`;
+};
+
+// Turns parsed lines into a table, taking the header and skipped rows from the front as they arrive.
+// Also used for spreadsheets, whose cells arrive typed and need no `convert`.
+export const createTableBuilder = (options: TableLayout, convert: (field: any) => any = field => field) => {
+    let lineCount = 0;
+    let headers: string[] = [];
+    const changes: HeaderChange[] = [];
+    const rows: Record<string, any>[] = [];
+
+    // Rows wider than the header get extra, generated columns rather than losing values.
+    const addMissingColumns = (count: number) => {
+        const taken = new Set(headers);
+        for (let i = headers.length; i < count; i++) {
+            const name = uniqueName(generatedName(i), taken);
+            taken.add(name);
+            headers.push(name);
+            if (options.hasHeader) changes.push({ column: i + 1, original: '', renamed: name, reason: 'missing' });
+        }
+    };
+
+    const addLine = (fields: any[]) => {
+        lineCount++;
+        if (lineCount < options.headerRow) return;
+        if (options.hasHeader) {
+            if (lineCount === options.headerRow) {
+                const sanitized = sanitizeHeaders(fields);
+                headers = sanitized.headers;
+                changes.push(...sanitized.changes);
+                return;
+            }
+            if (lineCount <= options.headerRow + options.skipRows) return;
+        }
+        if (fields.length > headers.length) addMissingColumns(fields.length);
+        const row: Record<string, any> = {};
+        headers.forEach((header, i) => {
+            if (i < fields.length) row[header] = convert(fields[i]);
+        });
+        rows.push(row);
+    };
+
+    return { addLine, getResult: (): ImportResult => ({ data: { headers, rows }, headerChanges: changes }) };
+};
+
+// Builds a table from rows that are already decoded, such as a worksheet's. Kept here rather than
+// with the spreadsheet reader so the import dialog can preview sheets without loading ExcelJS.
+export const buildTableFromRows = (rows: any[][], options: TableLayout): ImportResult => {
+    const builder = createTableBuilder(options);
+    rows.forEach(builder.addLine);
+    return builder.getResult();
+};
+
+const toPapaConfig = (options: CsvImportOptions) => ({
+    delimiter: options.delimiter,
+    quoteChar: options.quoteChar || '"',
+    comments: options.commentPrefix || false,
+    skipEmptyLines: 'greedy' as const,
+});
+
+const hasBom = (bytes: Uint8Array, ...bom: number[]): boolean => bom.every((byte, i) => bytes[i] === byte);
+
+const detectEncoding = (bytes: Uint8Array): string => {
+    if (hasBom(bytes, 0xff, 0xfe)) return 'utf-16le';
+    if (hasBom(bytes, 0xfe, 0xff)) return 'utf-16be';
+    try {
+        // `stream` tolerates a character cut in half at the end of the sample.
+        new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+        return 'utf-8';
+    } catch {
+        return 'windows-1252';
+    }
+};
+
+// Decodes the start of the file. The last line is dropped if the sample cut it short.
+export const readCsvSample = async (file: File, encoding: string): Promise<string> => {
+    const bytes = new Uint8Array(await file.slice(0, SAMPLE_BYTES).arrayBuffer());
+    const text = new TextDecoder(encoding).decode(bytes);
+    if (file.size <= SAMPLE_BYTES) return text;
+    const lastBreak = text.lastIndexOf('\n');
+    return lastBreak > 0 ? text.slice(0, lastBreak) : text;
+};
+
+const mostCommon = (values: number[]): number => {
+    const counts = new Map<number, number>();
+    values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+    return [...counts.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0]?.[0] ?? 0;
+};
+
+const isDataLike = (field: any): boolean =>
+    typeof field !== 'string' || field.trim() === '' || FLOAT.test(field) || /^\d{4}-\d{2}-\d{2}/.test(field);
+
+/**
+ * Takes the header to be the first line with as many fields as most of the lines (title lines
+ * above a table usually have just one). If that line holds only numbers and dates, it's data and
+ * the file has no header.
+ */
+export const detectTableLayout = (lines: any[][]): TableLayout => {
+    const fieldCount = mostCommon(lines.map(line => line.length));
+    const headerIndex = Math.max(lines.findIndex(line => line.length === fieldCount), 0);
+    const hasHeader = !(lines[headerIndex] || []).every(isDataLike);
+    return { hasHeader, headerRow: headerIndex + 1, skipRows: 0 };
+};
+
+/**
+ * Guesses the options for a file: the encoding from its bytes, the delimiter from Papa's sniffer,
+ * a comment prefix if the file opens with `#` lines, and the layout from `detectTableLayout`.
+ */
+export const detectCsvOptions = async (file: File): Promise<CsvImportOptions> => {
+    const bytes = new Uint8Array(await file.slice(0, SAMPLE_BYTES).arrayBuffer());
+    const encoding = detectEncoding(bytes);
+    const sample = await readCsvSample(file, encoding);
+    const commentPrefix = /^\s*#/.test(sample) ? '#' : '';
+
+    const sniffed = Papa.parse<string[]>(sample, { ...toPapaConfig({ ...DEFAULT_CSV_IMPORT_OPTIONS, commentPrefix }), preview: DETECTION_ROWS });
+    const delimiter = sniffed.meta.delimiter || ',';
+    const lines = Papa.parse<string[]>(sample, { ...toPapaConfig({ ...DEFAULT_CSV_IMPORT_OPTIONS, delimiter, commentPrefix }), preview: DETECTION_ROWS }).data;
+    return { ...DEFAULT_CSV_IMPORT_OPTIONS, encoding, delimiter, commentPrefix, ...detectTableLayout(lines) };
+};
+
+// Parses already-decoded text, for the import preview. `maxRows` counts data rows.
+export const parseCsvText = (text: string, options: CsvImportOptions, maxRows?: number): ImportResult => {
+    const builder = createTableBuilder(options, options.keepRawValues ? undefined : typeValue);
+    const preview = maxRows === undefined ? 0 : options.headerRow + options.skipRows + maxRows;
+    const results = Papa.parse<string[]>(text, { ...toPapaConfig(options), preview });
+    results.data.forEach(builder.addLine);
+    return builder.getResult();
+};
+
+// Streams the file in chunks. `onProgress` receives the fraction of the file read so far.
+export const parseCsvFile = (file: File, options: CsvImportOptions = DEFAULT_CSV_IMPORT_OPTIONS, onProgress?: (fraction: number) => void): Promise<ImportResult> => {
+    return new Promise((resolve, reject) => {
+        const builder = createTableBuilder(options, options.keepRawValues ? undefined : typeValue);
+        let newline: string | undefined;
+        Papa.parse<string[]>(file, {
+            ...toPapaConfig(options),
+            encoding: options.encoding,
+            chunk: (results) => {
+                // Papa detects the line ending from the first chunk.
+                newline ??= results.meta.linebreak;
+                results.data.forEach(builder.addLine);
+                if (file.size > 0) onProgress?.(Math.min(1, results.meta.cursor / file.size));
+            },
+            complete: () => {
+                const result = builder.getResult();
+                assignRowIds(result.data.rows);
+                if (!newline) return resolve(result);
+                // Four bytes hold the last character in every supported encoding.
+                file.slice(Math.max(0, file.size - 4)).arrayBuffer()
+                    .then(tail => resolve({ ...result, newline, finalNewline: /[\r\n]$/.test(new TextDecoder(options.encoding).decode(tail)) }))
+                    .catch(reject);
+            },
+            error: (error) => reject(error),
+        });
+    });
+};
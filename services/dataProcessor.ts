@@ -1,91 +1,203 @@
 
-import { TableData, Step, PreviewResult, Operation, SortDirection } from '../types';
+import { TableData, Step, PreviewResult, Operation, SortDirection, CastFailure, Aggregation, AggregateFunction, JoinStats, StepContext } from '../types';
 import { cloneDeep } from 'lodash'; // Using a helper for deep cloning to ensure data immutability
+import { compileExpression } from './expressionEngine';
+import { assignRowIds, diffTables } from './diffEngine';
+import { castValue } from './castValues';
+import { aggregate, getAggregationName } from './aggregations';
+import { joinTables, getJoinStats, JoinParams, DEFAULT_JOIN_SUFFIXES } from './joinTables';
+import { normalizeFilter, evaluateFilter, getFilterColumns } from './filterEngine';
+import { createRowComparator, resolveColumnTypes } from './comparison';
+import { applyStepToSchema } from './schemaSync';
+import { looksLikeIdentifier } from './typeDetector';
+
+const BLANK_PIVOT_HEADER = '(blank)';
+
+const MAX_CAST_FAILURE_EXAMPLES = 5;
 
 const isNumeric = (val: any): boolean => !isNaN(parseFloat(val)) && isFinite(val);
 
-export const previewStep = (data: TableData, step: Step): PreviewResult => {
-    const originalRowCount = data.rows.length;
-    const processedData = applyStep(data, step);
-    const newRowCount = processedData.rows.length;
+// `onProgress` is called after each step and once more after the diff, out of steps.length + 1.
+export const previewSteps = (data: TableData, allSteps: Step[], context: StepContext = {}, onProgress?: (completed: number, total: number) => void): PreviewResult => {
+    const steps = allSteps.filter(step => !step.disabled);
+    const total = steps.length + 1;
+    const lookups = context.lookups || {};
+    // Casts and joins are checked against the table they actually run on, which may be the output of earlier steps.
+    const castFailures: CastFailure[] = [];
+    const joinStats: JoinStats[] = [];
+    let current = data;
+    let schema = context.schema;
+    for (const [i, step] of steps.entries()) {
+        if (step.op === Operation.CastColumn) {
+            const failure = findCastFailures(current, step);
+            if (failure) castFailures.push(failure);
+        } else if (step.op === Operation.Join && lookups[step.params.right_table]) {
+            joinStats.push(getJoinStats(current, lookups[step.params.right_table], step.params.right_table, toJoinParams(step)));
+        }
+        current = applyStep(current, step, { lookups, schema });
+        // Later steps must compare with the types this step leaves behind (e.g. after a cast).
+        if (schema) schema = applyStepToSchema(schema, step, current);
+        onProgress?.(i + 1, total);
+    }
+    const result = { ...diffTables(data, current, trackRenames(steps)), castFailures, joinStats };
+    onProgress?.(total, total);
+    return result;
+};
 
-    const diff = {
-        rowsAdded: Math.max(0, newRowCount - originalRowCount),
-        rowsRemoved: Math.max(0, originalRowCount - newRowCount),
-        rowsModified: 0, // Simplified for now
+const toJoinParams = (step: Step): JoinParams => {
+    const leftOn: string[] = step.params.left_on || [];
+    return {
+        how: step.params.how || 'left',
+        leftOn,
+        rightOn: step.params.right_on?.length ? step.params.right_on : leftOn,
+        suffixes: step.params.suffixes?.length === 2 ? step.params.suffixes : DEFAULT_JOIN_SUFFIXES,
     };
+};
 
-    // Generate a simple sample diff
-    const sample = [];
-    if (diff.rowsRemoved > 0) {
-        const removedSample = data.rows.filter(
-            (originalRow) => !processedData.rows.some(
-                (newRow) => JSON.stringify(newRow) === JSON.stringify(originalRow)
-            )
-        ).slice(0, 3).map(r => ({ ...r, __status: 'removed' }));
-        sample.push(...removedSample);
+const findCastFailures = (data: TableData, step: Step): CastFailure | null => {
+    const { column, target_type, date_format } = step.params;
+    if (!data.headers.includes(column)) return null;
+
+    const failure: CastFailure = { column, target: target_type, count: 0, examples: [] };
+    data.rows.forEach((row, i) => {
+        if (castValue(row[column], target_type, date_format).ok) return;
+        failure.count++;
+        if (failure.examples.length < MAX_CAST_FAILURE_EXAMPLES) {
+            failure.examples.push({ row: i + 1, value: row[column] });
+        }
+    });
+    return failure.count > 0 ? failure : null;
+};
+
+// Follows columns through a pipeline, mapping each renamed header to its original name.
+const trackRenames = (steps: Step[]): Record<string, string> => {
+    const origins: Record<string, string> = {};
+    for (const step of steps) {
+        if (step.op === Operation.RenameColumn) {
+            const { old_name, new_name } = step.params;
+            const origin = origins[old_name] ?? old_name;
+            delete origins[old_name];
+            if (origin !== new_name) origins[new_name] = origin;
+        } else if (step.op === Operation.RemoveColumn) {
+            delete origins[step.params.column_to_remove];
+        }
     }
-    if (diff.rowsAdded > 0) {
-         const addedSample = processedData.rows.filter(
-            (newRow) => !data.rows.some(
-                (originalRow) => JSON.stringify(newRow) === JSON.stringify(originalRow)
-            )
-        ).slice(0, 3).map(r => ({ ...r, __status: 'added' }));
-        sample.push(...addedSample);
+    return origins;
+};
+
+const groupRows = (data: TableData, keys: string[], aggregations: Aggregation[]): TableData => {
+    const groups = new Map<string, Record<string, any>[]>();
+    for (const row of data.rows) {
+        const groupKey = JSON.stringify(keys.map(k => row[k] ?? null));
+        const group = groups.get(groupKey);
+        if (group) group.push(row);
+        else groups.set(groupKey, [row]);
     }
-    
-    // Fallback sample if no adds/removes
-    if (sample.length === 0 && processedData.rows.length > 0) {
-        sample.push(...processedData.rows.slice(0,3).map(r => ({...r, __status: 'unmodified'})));
+
+    const outputNames = aggregations.map(getAggregationName);
+    const rows = [...groups.values()].map(groupRows => {
+        const row: Record<string, any> = {};
+        keys.forEach(k => {
+            row[k] = groupRows[0][k];
+        });
+        aggregations.forEach((aggregation, i) => {
+            const values = aggregation.column ? groupRows.map(r => r[aggregation.column!]) : groupRows;
+            row[outputNames[i]] = aggregation.column ? aggregate(values, aggregation.func) : groupRows.length;
+        });
+        return row;
+    });
+
+    return { headers: [...keys, ...outputNames.filter(name => !keys.includes(name))], rows };
+};
+
+// Long to wide: one row per distinct index combination, one column per distinct value of `pivotColumn`.
+const pivotRows = (data: TableData, indexColumns: string[], pivotColumn: string, valueColumn: string, aggregator: AggregateFunction): TableData => {
+    const pivotHeaders: string[] = [];
+    const headerFor = new Map<string, string>();
+    const groups = new Map<string, { index: Record<string, any>; cells: Map<string, any[]> }>();
+
+    for (const row of data.rows) {
+        const rawPivot = row[pivotColumn];
+        const pivotKey = rawPivot === null || rawPivot === undefined || rawPivot === '' ? BLANK_PIVOT_HEADER : String(rawPivot);
+        if (!headerFor.has(pivotKey)) {
+            // A pivoted value can't reuse an index column's header.
+            const header = indexColumns.includes(pivotKey) ? `${pivotColumn}_${pivotKey}` : pivotKey;
+            headerFor.set(pivotKey, header);
+            pivotHeaders.push(header);
+        }
+
+        const groupKey = JSON.stringify(indexColumns.map(c => row[c] ?? null));
+        let group = groups.get(groupKey);
+        if (!group) {
+            const index: Record<string, any> = {};
+            indexColumns.forEach(c => {
+                index[c] = row[c];
+            });
+            group = { index, cells: new Map() };
+            groups.set(groupKey, group);
+        }
+        const header = headerFor.get(pivotKey)!;
+        const cell = group.cells.get(header);
+        if (cell) cell.push(row[valueColumn]);
+        else group.cells.set(header, [row[valueColumn]]);
     }
 
+    const rows = [...groups.values()].map(({ index, cells }) => {
+        const row: Record<string, any> = { ...index };
+        pivotHeaders.forEach(header => {
+            const values = cells.get(header);
+            row[header] = values ? aggregate(values, aggregator) : null;
+        });
+        return row;
+    });
+
+    return { headers: [...indexColumns, ...pivotHeaders], rows };
+};
 
-    return { diff, sample };
+// Wide to long: each value column of each row becomes its own row of (ids..., variable, value).
+const unpivotRows = (data: TableData, idColumns: string[], valueColumns: string[], variableName: string, valueName: string): TableData => {
+    const rows: Record<string, any>[] = [];
+    for (const row of data.rows) {
+        for (const column of valueColumns) {
+            const newRow: Record<string, any> = {};
+            idColumns.forEach(c => {
+                newRow[c] = row[c];
+            });
+            newRow[variableName] = column;
+            newRow[valueName] = row[column];
+            rows.push(newRow);
+        }
+    }
+    return { headers: [...idColumns, variableName, valueName], rows };
 };
 
 
-export const applyStep = (data: TableData, step: Step): TableData => {
+export const applyStep = (data: TableData, step: Step, context: StepContext = {}): TableData => {
+  if (step.disabled) return data;
   // Use deep cloning to avoid mutating the original state
   const newData = cloneDeep(data);
 
   switch (step.op) {
     case Operation.Filter: {
-        const { column, condition, value } = step.params;
-        if (!newData.headers.includes(column)) return newData;
-        
-        newData.rows = newData.rows.filter(row => {
-            const rowValue = row[column];
-            const filterValue = isNumeric(value) ? parseFloat(value as string) : value;
-            const comparableRowValue = isNumeric(rowValue) ? parseFloat(rowValue) : rowValue;
-
-            switch (condition) {
-                case 'equals': return comparableRowValue == filterValue;
-                case 'not_equals': return comparableRowValue != filterValue;
-                case 'gt': return comparableRowValue > filterValue;
-                case 'lt': return comparableRowValue < filterValue;
-                case 'gte': return comparableRowValue >= filterValue;
-                case 'lte': return comparableRowValue <= filterValue;
-                case 'contains': return String(rowValue).toLowerCase().includes(String(value).toLowerCase());
-                case 'not_contains': return !String(rowValue).toLowerCase().includes(String(value).toLowerCase());
-                default: return true;
-            }
-        });
+        const filter = normalizeFilter(step.params);
+        const filterColumns = getFilterColumns(filter);
+        if (!filterColumns.every(c => newData.headers.includes(c))) return newData;
+
+        const types = resolveColumnTypes(newData, filterColumns, context.schema);
+        newData.rows = newData.rows.filter(row => evaluateFilter(filter, row, types));
         break;
     }
     case Operation.Sort: {
-        const { columns, directions } = step.params;
-        newData.rows.sort((a, b) => {
-            for (let i = 0; i < columns.length; i++) {
-                const col = columns[i];
-                const dir = directions[i] === SortDirection.Desc ? -1 : 1;
-                const valA = a[col];
-                const valB = b[col];
-
-                if (valA < valB) return -1 * dir;
-                if (valA > valB) return 1 * dir;
-            }
-            return 0;
-        });
+        const { columns = [], directions = [], nulls, natural, case_sensitive, locale } = step.params;
+        if (!columns.every((c: string) => newData.headers.includes(c))) return newData;
+
+        const types = resolveColumnTypes(newData, columns, context.schema);
+        const sortColumns = columns.map((column: string, i: number) => ({
+            column,
+            type: types[column],
+            direction: directions[i] === SortDirection.Desc ? SortDirection.Desc : SortDirection.Asc,
+        }));
+        newData.rows.sort(createRowComparator(newData.rows, sortColumns, { nulls, natural, caseSensitive: case_sensitive, locale }));
         break;
     }
     case Operation.Dedupe: {
@@ -112,7 +224,8 @@ export const applyStep = (data: TableData, step: Step): TableData => {
     case Operation.RenameColumn: {
         const { old_name, new_name } = step.params;
         const index = newData.headers.indexOf(old_name);
-        if (index !== -1) {
+        // Renaming a column to its own name would delete it below.
+        if (index !== -1 && new_name !== old_name) {
             newData.headers[index] = new_name;
             newData.rows.forEach(row => {
                 row[new_name] = row[old_name];
@@ -126,17 +239,90 @@ export const applyStep = (data: TableData, step: Step): TableData => {
         if (newData.headers.includes(fill_column)) {
             newData.rows.forEach(row => {
                 if (row[fill_column] === null || row[fill_column] === undefined || row[fill_column] === '') {
-                    row[fill_column] = isNumeric(fill_value) ? parseFloat(fill_value as string) : fill_value;
+                    row[fill_column] = isNumeric(fill_value) && !looksLikeIdentifier(fill_value) ? parseFloat(fill_value as string) : fill_value;
                 }
             });
         }
         break;
     }
+    case Operation.AddColumn: {
+        const { new_column, expression } = step.params;
+        if (!new_column) return newData;
+        // Parse errors are thrown so the caller can show them; they'd otherwise look like a no-op.
+        const compiled = compileExpression(String(expression ?? ''));
+        if (compiled.columns.some(c => !newData.headers.includes(c))) return newData;
+
+        newData.rows.forEach(row => {
+            row[new_column] = compiled.evaluate(row);
+        });
+        if (!newData.headers.includes(new_column)) {
+            newData.headers.push(new_column);
+        }
+        break;
+    }
+    case Operation.CastColumn: {
+        const { column, target_type, date_format } = step.params;
+        if (!newData.headers.includes(column)) return newData;
+        // Cells that fail to convert become empty; previewSteps reports them beforehand.
+        newData.rows.forEach(row => {
+            row[column] = castValue(row[column], target_type, date_format).value;
+        });
+        break;
+    }
+    case Operation.GroupBy: {
+        const { group_keys = [], aggregations = [] } = step.params;
+        const referenced = [...group_keys, ...aggregations.map((a: Aggregation) => a.column).filter(Boolean)];
+        if (referenced.some(c => !newData.headers.includes(c))) return newData;
+
+        const grouped = groupRows(newData, group_keys, aggregations);
+        newData.headers = grouped.headers;
+        newData.rows = grouped.rows;
+        break;
+    }
+    case Operation.Pivot: {
+        const { index_columns = [], pivot_column, value_column, aggregator = 'first' } = step.params;
+        if (![...index_columns, pivot_column, value_column].every(c => newData.headers.includes(c))) return newData;
+
+        const pivoted = pivotRows(newData, index_columns, pivot_column, value_column, aggregator);
+        newData.headers = pivoted.headers;
+        newData.rows = pivoted.rows;
+        break;
+    }
+    case Operation.Unpivot: {
+        const { id_columns = [], variable_name = 'variable', value_name = 'value' } = step.params;
+        // Without explicit value columns, every non-id column is melted.
+        const value_columns: string[] = step.params.value_columns?.length
+            ? step.params.value_columns
+            : newData.headers.filter(h => !id_columns.includes(h));
+        if (![...id_columns, ...value_columns].every(c => newData.headers.includes(c))) return newData;
+        if (id_columns.includes(variable_name) || id_columns.includes(value_name) || variable_name === value_name) {
+            throw new Error(`Unpivot output columns "${variable_name}" and "${value_name}" must be distinct and not clash with id columns.`);
+        }
+
+        const melted = unpivotRows(newData, id_columns, value_columns, variable_name, value_name);
+        newData.headers = melted.headers;
+        newData.rows = melted.rows;
+        break;
+    }
+    case Operation.Join: {
+        const right = context.lookups?.[step.params.right_table];
+        if (!right) return newData;
+        const params = toJoinParams(step);
+        if (params.leftOn.length === 0 || params.leftOn.length !== params.rightOn.length) return newData;
+        if (!params.leftOn.every(c => newData.headers.includes(c)) || !params.rightOn.every(c => right.headers.includes(c))) return newData;
+
+        const joined = joinTables(newData, right, params);
+        newData.headers = joined.headers;
+        newData.rows = joined.rows;
+        break;
+    }
     case Operation.Error:
         // Do nothing for error operation
         break;
     default:
         console.warn(`Unknown operation: ${step.op}`);
   }
+  // Rows created by an operation need an identity of their own for diffing.
+  assignRowIds(newData.rows);
   return newData;
 };
@@ -0,0 +1,134 @@
+import { TableData, PreviewResult, PreviewDiff, DiffSampleRow } from '../types';
+
+// Rows carry a hidden, stable identity so a diff can tell "the same row, edited" apart from
+// "one row removed and another added". A symbol key keeps it out of Object.keys, JSON and CSV exports,
+// while lodash's cloneDeep and object spread both preserve it.
+export const ROW_ID = Symbol('rowId');
+
+const SAMPLE_SIZE = 3;
+
+let nextRowId = 1;
+
+export const getRowId = (row: Record<string, any>): number | undefined => (row as any)[ROW_ID];
+
+// Tags rows in place. Rows that already have an identity keep it.
+export const assignRowIds = <T extends Record<string, any>>(rows: T[]): T[] => {
+    for (const row of rows) {
+        if ((row as any)[ROW_ID] === undefined) {
+            (row as any)[ROW_ID] = nextRowId++;
+        }
+    }
+    return rows;
+};
+
+// Structured clone (Web Workers, IndexedDB) drops symbol keys, so identities cross that boundary
+// as an array alongside the rows.
+export const getRowIds = (rows: Record<string, any>[]): (number | undefined)[] => rows.map(getRowId);
+
+export const restoreRowIds = <T extends Record<string, any>>(rows: T[], ids: (number | undefined)[]): T[] => {
+    rows.forEach((row, i) => {
+        const id = ids[i];
+        if (id === undefined) return;
+        (row as any)[ROW_ID] = id;
+        if (id >= nextRowId) nextRowId = id + 1;
+    });
+    return rows;
+};
+
+// The worker and the page number rows independently; each tells the other where it got to so
+// rows created on either side never share an identity.
+export const getNextRowId = (): number => nextRowId;
+
+export const reserveRowIds = (next: number): void => {
+    nextRowId = Math.max(nextRowId, next);
+};
+
+const sameValue = (a: any, b: any): boolean => a === b || (Number.isNaN(a) && Number.isNaN(b));
+
+/**
+ * Compares two versions of a table row by row, matching rows on their identity rather than their content.
+ * `renamedColumns` maps a header in `after` to the header it had in `before`, so renamed columns are
+ * compared with their own previous values instead of showing up as a removed and an added column.
+ */
+export const diffTables = (before: TableData, after: TableData, renamedColumns: Record<string, string> = {}): PreviewResult => {
+    const beforeById = new Map<number, Record<string, any>>();
+    for (const row of before.rows) {
+        const id = getRowId(row);
+        if (id !== undefined) beforeById.set(id, row);
+    }
+
+    // Each header in `after` paired with the header it came from; null for brand-new columns.
+    const columnPairs: [string, string | null][] = after.headers.map(header => {
+        const source = renamedColumns[header] ?? header;
+        return [header, before.headers.includes(source) ? source : null];
+    });
+    const toAfterHeaders = (row: Record<string, any>): Record<string, any> => {
+        const values: Record<string, any> = {};
+        for (const [header, source] of columnPairs) {
+            values[header] = source === null ? undefined : row[source];
+        }
+        return values;
+    };
+
+    const sources = columnPairs.map(([, source]) => source);
+    const diff: PreviewDiff = {
+        rowsAdded: 0,
+        rowsRemoved: 0,
+        rowsModified: 0,
+        cellsModified: 0,
+        changedColumns: {},
+        columnsAdded: sources.filter(source => source === null).length,
+        columnsRemoved: before.headers.filter(h => !sources.includes(h)).length,
+    };
+    const added: DiffSampleRow[] = [];
+    const modified: DiffSampleRow[] = [];
+    const removed: DiffSampleRow[] = [];
+    const matched = new Set<number>();
+
+    for (const row of after.rows) {
+        const id = getRowId(row);
+        const original = id !== undefined && !matched.has(id) ? beforeById.get(id) : undefined;
+
+        if (!original) {
+            diff.rowsAdded++;
+            if (added.length < SAMPLE_SIZE) added.push({ status: 'added', values: { ...row }, previous: {} });
+            continue;
+        }
+        matched.add(id!);
+
+        let previous: Record<string, any> | null = null;
+        for (const [header, source] of columnPairs) {
+            const oldValue = source === null ? undefined : original[source];
+            const newValue = row[header];
+            // A new column counts as a change only where it actually holds a value.
+            if (source === null ? newValue === undefined || newValue === null || newValue === '' : sameValue(oldValue, newValue)) {
+                continue;
+            }
+            previous = previous || {};
+            previous[header] = oldValue;
+            diff.cellsModified++;
+            diff.changedColumns[header] = (diff.changedColumns[header] || 0) + 1;
+        }
+
+        if (previous) {
+            diff.rowsModified++;
+            if (modified.length < SAMPLE_SIZE) modified.push({ status: 'modified', values: { ...row }, previous });
+        }
+    }
+
+    for (const row of before.rows) {
+        const id = getRowId(row);
+        if (id !== undefined && matched.has(id)) continue;
+        diff.rowsRemoved++;
+        if (removed.length < SAMPLE_SIZE) removed.push({ status: 'removed', values: toAfterHeaders(row), previous: {} });
+    }
+
+    // When no row survives (e.g. a group-by), the removed rows say nothing about the new table.
+    const sample = matched.size === 0 && added.length > 0 ? added : [...removed, ...added, ...modified];
+    // Nothing changed row-wise (e.g. a sort or a rename): show the top of the result instead.
+    if (sample.length === 0) {
+        sample.push(...after.rows.slice(0, SAMPLE_SIZE).map(row => ({ status: 'unmodified' as const, values: { ...row }, previous: {} })));
+    }
+
+    return { diff, headers: after.headers, renamedColumns, rowCount: after.rows.length, previousRowCount: before.rows.length, sample };
+};
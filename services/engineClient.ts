@@ -0,0 +1,106 @@
+import { TableData, Step, StepContext, StepIssue, PreviewResult, HistoryEntry, EngineProgress, CsvImportOptions, ImportResult, HeaderChange, XlsxImportOptions, XlsxSheetPreview, ColumnSchema, ConditionalFormatRule, ExportFormatId, ExportOptions } from '../types';
+import { EngineTask, EngineRequest, EngineResponse, PackedEntry, PackedTable, packTable, unpackTable, packEntry, unpackEntry, packContext } from './engineProtocol';
+import { getNextRowId, reserveRowIds } from './diffEngine';
+
+export interface EngineTaskOptions {
+    onProgress?: (progress: EngineProgress) => void;
+    // Aborting stops the worker outright, which also cancels any other task it was running.
+    signal?: AbortSignal;
+}
+
+interface PendingTask {
+    resolve: (result: any) => void;
+    reject: (error: Error) => void;
+    onProgress?: (progress: EngineProgress) => void;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, PendingTask>();
+
+const cancelledError = (): Error => new DOMException('The task was cancelled.', 'AbortError');
+
+export const isCancelledError = (error: unknown): boolean => error instanceof DOMException && error.name === 'AbortError';
+
+// Synchronous work can't be interrupted from outside, so cancelling means terminating the worker.
+const stopWorker = (error: Error) => {
+    worker?.terminate();
+    worker = null;
+    pending.forEach(task => task.reject(error));
+    pending.clear();
+};
+
+const handleResponse = (response: EngineResponse) => {
+    const task = pending.get(response.id);
+    if (!task) return;
+    if (response.type === 'progress') {
+        task.onProgress?.(response.progress);
+        return;
+    }
+    pending.delete(response.id);
+    if (response.type === 'done') {
+        reserveRowIds(response.nextRowId);
+        task.resolve(response.result);
+    } else {
+        task.reject(new Error(response.message));
+    }
+};
+
+const getWorker = (): Worker => {
+    if (!worker) {
+        worker = new Worker(new URL('./engineWorker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (event: MessageEvent<EngineResponse>) => handleResponse(event.data);
+        worker.onerror = (event: ErrorEvent) => {
+            event.preventDefault();
+            stopWorker(new Error(event.message || 'The data engine stopped unexpectedly.'));
+        };
+    }
+    return worker;
+};
+
+const runTask = <T>(task: EngineTask, { onProgress, signal }: EngineTaskOptions = {}): Promise<T> => {
+    if (signal?.aborted) return Promise.reject(cancelledError());
+    return new Promise<T>((resolve, reject) => {
+        const id = nextRequestId++;
+        const onAbort = () => {
+            if (pending.has(id)) stopWorker(cancelledError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        const settle = <A>(callback: (arg: A) => void) => (arg: A) => {
+            signal?.removeEventListener('abort', onAbort);
+            callback(arg);
+        };
+        pending.set(id, { resolve: settle(resolve), reject: settle(reject), onProgress });
+        getWorker().postMessage({ ...task, id, nextRowId: getNextRowId() } as EngineRequest);
+    });
+};
+
+export const parseCsvInWorker = async (file: File, importOptions: CsvImportOptions, options?: EngineTaskOptions): Promise<ImportResult> => {
+    const { data, ...result } = await runTask<Omit<ImportResult, 'data'> & { data: PackedTable }>({ task: 'parse', file, options: importOptions }, options);
+    return { ...result, data: unpackTable(data) };
+};
+
+// The first rows of every sheet, and the sheet and layout detected for importing.
+export const inspectXlsxInWorker = (file: File, options?: EngineTaskOptions): Promise<{ sheets: XlsxSheetPreview[]; options: XlsxImportOptions }> =>
+    runTask<{ sheets: XlsxSheetPreview[]; options: XlsxImportOptions }>({ task: 'inspect-xlsx', file }, options);
+
+export const parseXlsxInWorker = async (file: File, importOptions: XlsxImportOptions, options?: EngineTaskOptions): Promise<ImportResult> => {
+    const { data, headerChanges } = await runTask<{ data: PackedTable; headerChanges: HeaderChange[] }>({ task: 'parse-xlsx', file, options: importOptions }, options);
+    return { data: unpackTable(data), headerChanges };
+};
+
+// Row identities aren't needed in the file, so the table goes as it is.
+export const exportXlsxInWorker = (data: TableData, schema: ColumnSchema, formats: ConditionalFormatRule[], sheetName: string, options?: EngineTaskOptions): Promise<ArrayBuffer> =>
+    runTask<ArrayBuffer>({ task: 'export-xlsx', data, schema, formats, sheetName }, options);
+
+export const exportTableInWorker = (data: TableData, schema: ColumnSchema, format: ExportFormatId, exportOptions: ExportOptions, options?: EngineTaskOptions): Promise<string> =>
+    runTask<string>({ task: 'export', data, schema, format, options: exportOptions }, options);
+
+export const validateStepsInWorker = (data: TableData, steps: Step[], context: StepContext, options?: EngineTaskOptions): Promise<StepIssue[]> =>
+    runTask<StepIssue[]>({ task: 'validate', data: packTable(data), steps, context: packContext(context) }, options);
+
+export const previewStepsInWorker = (data: TableData, steps: Step[], context: StepContext, options?: EngineTaskOptions): Promise<PreviewResult> =>
+    runTask<PreviewResult>({ task: 'preview', data: packTable(data), steps, context: packContext(context) }, options);
+
+export const replayStepsInWorker = async (base: HistoryEntry, steps: Step[], context: StepContext, options?: EngineTaskOptions): Promise<HistoryEntry[]> =>
+    (await runTask<PackedEntry[]>({ task: 'replay', base: packEntry(base), steps, context: packContext(context) }, options)).map(unpackEntry);
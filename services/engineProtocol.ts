@@ -0,0 +1,53 @@
+import { TableData, Step, StepContext, ColumnSchema, HistoryEntry, EngineProgress, CsvImportOptions, XlsxImportOptions, ConditionalFormatRule, ExportFormatId, ExportOptions } from '../types';
+import { getRowIds, restoreRowIds } from './diffEngine';
+
+// Messages between the page and the engine worker. Tables are sent with their row identities
+// alongside, because posting a message loses them.
+
+export interface PackedTable extends TableData {
+    rowIds: (number | undefined)[];
+}
+
+export interface PackedEntry extends Omit<HistoryEntry, 'data'> {
+    data: PackedTable;
+}
+
+export interface PackedContext {
+    lookups: Record<string, PackedTable>;
+    schema?: ColumnSchema;
+}
+
+export type EngineTask =
+    | { task: 'parse'; file: File; options: CsvImportOptions }
+    | { task: 'inspect-xlsx'; file: File }
+    | { task: 'parse-xlsx'; file: File; options: XlsxImportOptions }
+    | { task: 'export-xlsx'; data: TableData; schema: ColumnSchema; formats: ConditionalFormatRule[]; sheetName: string }
+    | { task: 'export'; data: TableData; schema: ColumnSchema; format: ExportFormatId; options: ExportOptions }
+    | { task: 'validate'; data: PackedTable; steps: Step[]; context: PackedContext }
+    | { task: 'preview'; data: PackedTable; steps: Step[]; context: PackedContext }
+    | { task: 'replay'; base: PackedEntry; steps: Step[]; context: PackedContext };
+
+export type EngineRequest = EngineTask & { id: number; nextRowId: number };
+
+export type EngineResponse =
+    | { id: number; type: 'progress'; progress: EngineProgress }
+    | { id: number; type: 'done'; result: any; nextRowId: number }
+    | { id: number; type: 'error'; message: string };
+
+export const packTable = (data: TableData): PackedTable => ({ headers: data.headers, rows: data.rows, rowIds: getRowIds(data.rows) });
+
+export const unpackTable = (packed: PackedTable): TableData => ({ headers: packed.headers, rows: restoreRowIds(packed.rows, packed.rowIds) });
+
+export const packEntry = (entry: HistoryEntry): PackedEntry => ({ ...entry, data: packTable(entry.data) });
+
+export const unpackEntry = (packed: PackedEntry): HistoryEntry => ({ ...packed, data: unpackTable(packed.data) });
+
+export const packContext = (context: StepContext): PackedContext => ({
+    lookups: Object.fromEntries(Object.entries(context.lookups || {}).map(([name, table]) => [name, packTable(table)])),
+    schema: context.schema,
+});
+
+export const unpackContext = (packed: PackedContext): StepContext => ({
+    lookups: Object.fromEntries(Object.entries(packed.lookups).map(([name, table]) => [name, unpackTable(table)])),
+    schema: packed.schema,
+});
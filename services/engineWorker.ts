@@ -0,0 +1,66 @@
+import { EngineRequest, EngineResponse, packTable, unpackTable, packEntry, unpackEntry, unpackContext } from './engineProtocol';
+import { parseCsvFile } from './csvImporter';
+import { inspectXlsxFile, detectXlsxOptions, parseXlsxFile } from './xlsxImporter';
+import { exportXlsx } from './xlsxExporter';
+import { serializeTable } from './exportFormats';
+import { previewSteps } from './dataProcessor';
+import { replaySteps } from './pipeline';
+import { validateSteps } from './stepValidator';
+import { getNextRowId, reserveRowIds } from './diffEngine';
+
+// Runs parsing and transformations off the main thread. Started by engineClient; one request at a time.
+
+const post = (response: EngineResponse) => self.postMessage(response);
+
+const run = async (request: EngineRequest): Promise<any> => {
+    const report = (fraction: number, label: string) => post({ id: request.id, type: 'progress', progress: { fraction, label } });
+
+    switch (request.task) {
+        case 'parse': {
+            report(0, 'Reading file');
+            const { data, ...result } = await parseCsvFile(request.file, request.options, fraction => report(fraction, 'Reading file'));
+            return { ...result, data: packTable(data) };
+        }
+        case 'inspect-xlsx': {
+            report(0, 'Reading workbook');
+            const sheets = await inspectXlsxFile(request.file);
+            return { sheets, options: detectXlsxOptions(sheets) };
+        }
+        case 'parse-xlsx': {
+            report(0, 'Reading workbook');
+            const { data, headerChanges } = await parseXlsxFile(request.file, request.options, fraction => report(fraction, `Reading sheet ${request.options.sheet}`));
+            return { data: packTable(data), headerChanges };
+        }
+        case 'export-xlsx':
+            report(0, 'Writing workbook');
+            return exportXlsx(request.data, request.schema, request.formats, request.sheetName);
+        case 'export':
+            report(0, 'Writing file');
+            return serializeTable(request.data, request.schema, request.format, request.options);
+        case 'validate':
+            return validateSteps(unpackTable(request.data), request.steps, unpackContext(request.context));
+        case 'preview': {
+            const stepCount = request.steps.filter(step => !step.disabled).length;
+            const label = (completed: number) => (completed < stepCount ? `Running step ${completed + 1} of ${stepCount}` : 'Comparing with the current table');
+            report(0, label(0));
+            return previewSteps(unpackTable(request.data), request.steps, unpackContext(request.context), (completed, total) => report(completed / total, label(completed)));
+        }
+        case 'replay': {
+            const label = (completed: number) => `Applying step ${Math.min(completed + 1, request.steps.length)} of ${request.steps.length}`;
+            report(0, label(0));
+            const entries = replaySteps(unpackEntry(request.base), request.steps, unpackContext(request.context), (completed, total) => report(completed / total, label(completed)));
+            return entries.map(packEntry);
+        }
+    }
+};
+
+self.onmessage = async (event: MessageEvent<EngineRequest>) => {
+    const request = event.data;
+    reserveRowIds(request.nextRowId);
+    try {
+        const result = await run(request);
+        post({ id: request.id, type: 'done', result, nextRowId: getNextRowId() });
+    } catch (error) {
+        post({ id: request.id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+};
@@ -0,0 +1,212 @@
+import Papa from 'papaparse';
+import { TableData, ColumnSchema, ColumnType, ExportFormatId, ExportOptions } from '../types';
+import { castValue, formatDate } from './castValues';
+
+export interface ExportFormat {
+    id: ExportFormatId;
+    label: string;
+    extension: string;
+    mimeType: string;
+    // The options the dialog shows for this format.
+    options: (keyof ExportOptions)[];
+    serialize: (data: TableData, schema: ColumnSchema, options: ExportOptions) => string;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+    delimiter: ',',
+    quoting: 'minimal',
+    newline: '\r\n',
+    finalNewline: false,
+    nullValue: '',
+    dateFormat: '',
+    useGridOrder: true,
+    tableName: 'data',
+};
+
+// Rows per INSERT statement, so large scripts don't hit statement size limits.
+const SQL_BATCH_SIZE = 500;
+
+const isBlank = (value: any): boolean => value === null || value === undefined || value === '';
+
+const columnTypes = (data: TableData, schema: ColumnSchema): ColumnType[] => data.headers.map(header => schema[header]?.type || 'string');
+
+// The value as its column's type, for formats that keep types. Values that don't convert stay text.
+const toTypedValue = (value: any, type: ColumnType, dateFormat: string): any => {
+    if (isBlank(value)) return null;
+    if (type === 'string') return String(value);
+    const { ok, value: converted } = castValue(value, type);
+    if (!ok || converted === null) return String(value);
+    return type === 'date' && dateFormat ? formatDate(converted, dateFormat) : converted;
+};
+
+// The value for formats that write text. Only dates are rewritten, and only when a format is chosen.
+const toTextValue = (value: any, type: ColumnType, options: ExportOptions): string => {
+    if (isBlank(value)) return options.nullValue;
+    if (type === 'date' && options.dateFormat) {
+        const { ok, value: iso } = castValue(value, 'date');
+        if (ok && iso !== null) return formatDate(iso, options.dateFormat);
+    }
+    return value instanceof Date ? value.toISOString() : String(value);
+};
+
+const toTextRows = (data: TableData, schema: ColumnSchema, options: ExportOptions): string[][] => {
+    const types = columnTypes(data, schema);
+    return data.rows.map(row => data.headers.map((header, i) => toTextValue(row[header], types[i], options)));
+};
+
+const toRecords = (data: TableData, schema: ColumnSchema, options: ExportOptions): Record<string, any>[] => {
+    const types = columnTypes(data, schema);
+    return data.rows.map(row => Object.fromEntries(data.headers.map((header, i) => [header, toTypedValue(row[header], types[i], options.dateFormat)])));
+};
+
+const toDelimited = (data: TableData, schema: ColumnSchema, options: ExportOptions, delimiter: string): string => {
+    const text = Papa.unparse({ fields: data.headers, data: toTextRows(data, schema, options) }, { delimiter, quotes: options.quoting === 'all', newline: options.newline });
+    return options.finalNewline ? text + options.newline : text;
+};
+
+const escapeMarkdown = (text: string): string => text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+const toMarkdown = (data: TableData, schema: ColumnSchema, options: ExportOptions): string => {
+    const types = columnTypes(data, schema);
+    const line = (cells: string[]) => `| ${cells.join(' | ')} |`;
+    return [
+        line(data.headers.map(escapeMarkdown)),
+        // Numbers are right-aligned, as in the grid.
+        line(types.map(type => (type === 'number' ? '---:' : '---'))),
+        ...toTextRows(data, schema, options).map(cells => line(cells.map(escapeMarkdown))),
+    ].join('\n') + '\n';
+};
+
+const escapeHtml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const toHtml = (data: TableData, schema: ColumnSchema, options: ExportOptions): string => {
+    const cells = (tag: string, values: string[]) => values.map(value => `<${tag}>${escapeHtml(value)}</${tag}>`).join('');
+    return [
+        '<table>',
+        '  <thead>',
+        `    <tr>${cells('th', data.headers)}</tr>`,
+        '  </thead>',
+        '  <tbody>',
+        ...toTextRows(data, schema, options).map(row => `    <tr>${cells('td', row)}</tr>`),
+        '  </tbody>',
+        '</table>',
+    ].join('\n') + '\n';
+};
+
+const quoteIdentifier = (name: string): string => `"${name.replace(/"/g, '""')}"`;
+
+const quoteString = (text: string): string => `'${text.replace(/'/g, "''")}'`;
+
+/**
+ * The SQL type for a column: its schema type, narrowed to INTEGER/BIGINT or DATE where every value
+ * allows it. A column with values its type can't hold becomes TEXT, so the script never fails on them.
+ */
+const toSqlType = (values: any[], type: ColumnType): string => {
+    const present = values.filter(value => value !== null);
+    if (type === 'string') return 'TEXT';
+    if (type === 'date') {
+        if (!present.every(value => /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}:\d{2})?$/.test(value))) return 'TEXT';
+        return present.some(value => value.includes('T')) ? 'TIMESTAMP' : 'DATE';
+    }
+    // Values that didn't convert were left as text.
+    if (present.some(value => typeof value === 'string')) return 'TEXT';
+    if (type === 'boolean') return 'BOOLEAN';
+    if (!present.every(Number.isInteger)) return 'DOUBLE PRECISION';
+    return present.every(n => Math.abs(n) <= 2147483647) ? 'INTEGER' : 'BIGINT';
+};
+
+const toSqlLiteral = (value: any, sqlType: string): string => {
+    if (value === null) return 'NULL';
+    if (sqlType === 'TEXT') return quoteString(String(value));
+    if (typeof value === 'number') return String(value);
+    if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+    return quoteString(sqlType === 'TIMESTAMP' ? value.replace('T', ' ') : value);
+};
+
+// A CREATE TABLE statement and batched INSERTs in standard SQL, which PostgreSQL, SQLite and DuckDB accept.
+const toSql = (data: TableData, schema: ColumnSchema, options: ExportOptions): string => {
+    const types = columnTypes(data, schema);
+    // Dates stay ISO, which every database reads, whatever the date format option says.
+    const columns = data.headers.map((header, i) => data.rows.map(row => toTypedValue(row[header], types[i], '')));
+    const sqlTypes = columns.map((values, i) => toSqlType(values, types[i]));
+    const table = quoteIdentifier(options.tableName.trim() || DEFAULT_EXPORT_OPTIONS.tableName);
+    const columnList = data.headers.map(quoteIdentifier).join(', ');
+
+    const statements = [
+        `CREATE TABLE ${table} (\n${data.headers.map((header, i) => `    ${quoteIdentifier(header)} ${sqlTypes[i]}`).join(',\n')}\n);`,
+    ];
+    for (let start = 0; start < data.rows.length; start += SQL_BATCH_SIZE) {
+        const end = Math.min(start + SQL_BATCH_SIZE, data.rows.length);
+        const tuples: string[] = [];
+        for (let r = start; r < end; r++) {
+            tuples.push(`    (${columns.map((values, i) => toSqlLiteral(values[r], sqlTypes[i])).join(', ')})`);
+        }
+        statements.push(`INSERT INTO ${table} (${columnList}) VALUES\n${tuples.join(',\n')};`);
+    }
+    return statements.join('\n\n') + '\n';
+};
+
+export const EXPORT_FORMATS: ExportFormat[] = [
+    {
+        id: 'csv',
+        label: 'CSV',
+        extension: 'csv',
+        mimeType: 'text/csv;charset=utf-8;',
+        options: ['delimiter', 'quoting', 'newline', 'nullValue', 'dateFormat'],
+        serialize: (data, schema, options) => toDelimited(data, schema, options, options.delimiter || ','),
+    },
+    {
+        id: 'tsv',
+        label: 'TSV',
+        extension: 'tsv',
+        mimeType: 'text/tab-separated-values;charset=utf-8;',
+        options: ['quoting', 'newline', 'nullValue', 'dateFormat'],
+        serialize: (data, schema, options) => toDelimited(data, schema, options, '\t'),
+    },
+    {
+        id: 'json',
+        label: 'JSON (array of records)',
+        extension: 'json',
+        mimeType: 'application/json;charset=utf-8;',
+        options: ['dateFormat'],
+        serialize: (data, schema, options) => JSON.stringify(toRecords(data, schema, options), null, 2) + '\n',
+    },
+    {
+        id: 'ndjson',
+        label: 'NDJSON (one record per line)',
+        extension: 'ndjson',
+        mimeType: 'application/x-ndjson;charset=utf-8;',
+        options: ['dateFormat'],
+        serialize: (data, schema, options) => toRecords(data, schema, options).map(record => JSON.stringify(record) + '\n').join(''),
+    },
+    {
+        id: 'markdown',
+        label: 'Markdown table',
+        extension: 'md',
+        mimeType: 'text/markdown;charset=utf-8;',
+        options: ['nullValue', 'dateFormat'],
+        serialize: toMarkdown,
+    },
+    {
+        id: 'html',
+        label: 'HTML table',
+        extension: 'html',
+        mimeType: 'text/html;charset=utf-8;',
+        options: ['nullValue', 'dateFormat'],
+        serialize: toHtml,
+    },
+    {
+        id: 'sql',
+        label: 'SQL (CREATE TABLE + INSERT)',
+        extension: 'sql',
+        mimeType: 'application/sql;charset=utf-8;',
+        options: ['tableName'],
+        serialize: toSql,
+    },
+];
+
+export const getExportFormat = (id: ExportFormatId): ExportFormat => EXPORT_FORMATS.find(format => format.id === id) || EXPORT_FORMATS[0];
+
+export const serializeTable = (data: TableData, schema: ColumnSchema, formatId: ExportFormatId, options: ExportOptions): string =>
+    getExportFormat(formatId).serialize(data, schema, options);
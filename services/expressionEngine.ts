@@ -0,0 +1,362 @@
+import { toLocalDate } from './castValues';
+
+// A small, sandboxed expression language for computed columns. Expressions are tokenized and
+// parsed into an AST that is walked by `evaluate`, so no user text ever reaches `eval`/`Function`.
+//
+//   price * qty                          arithmetic: + - * / % and parentheses
+//   first_name & " " & last_name         string concatenation with &
+//   [Unit Price] * 1.2                   [brackets] for column names with spaces or symbols
+//   if(qty > 10, "bulk", "single")       if/else, comparisons (= == != <> < > <= >=), and/or/not
+//   coalesce(phone, mobile, "n/a")       first non-empty value
+//   year(signup_date), month(...), ...   date parts
+
+type TokenType = 'number' | 'string' | 'identifier' | 'column' | 'operator' | 'lparen' | 'rparen' | 'comma';
+
+interface Token {
+    type: TokenType;
+    value: string;
+    pos: number;
+}
+
+type ExpressionNode =
+    | { kind: 'literal'; value: any }
+    | { kind: 'column'; name: string }
+    | { kind: 'unary'; op: '-' | 'not'; arg: ExpressionNode }
+    | { kind: 'binary'; op: string; left: ExpressionNode; right: ExpressionNode }
+    | { kind: 'call'; name: string; args: ExpressionNode[] };
+
+export interface CompiledExpression {
+    columns: string[];
+    evaluate: (row: Record<string, any>) => any;
+}
+
+const isEmpty = (val: any): boolean => val === null || val === undefined || val === '';
+
+const toNumber = (val: any): number => {
+    if (isEmpty(val)) return NaN;
+    if (typeof val === 'number') return val;
+    if (typeof val === 'boolean') return val ? 1 : 0;
+    const str = String(val).trim();
+    return str !== '' && isFinite(Number(str)) ? Number(str) : NaN;
+};
+
+const isTruthy = (val: any): boolean => {
+    if (isEmpty(val)) return false;
+    if (typeof val === 'string') return !['false', '0', 'no'].includes(val.trim().toLowerCase());
+    return Boolean(val);
+};
+
+// NaN and Infinity are not meaningful cell values, so arithmetic failures become empty cells.
+const numericResult = (n: number): number | null => (isFinite(n) ? n : null);
+
+const datePart = (getter: (d: Date) => number) => (val: any) => {
+    const d = toLocalDate(val);
+    return d ? getter(d) : null;
+};
+
+const FUNCTIONS: Record<string, { minArgs: number; maxArgs: number; fn: (...args: any[]) => any }> = {
+    if: { minArgs: 2, maxArgs: 3, fn: (cond, a, b = null) => (isTruthy(cond) ? a : b) },
+    coalesce: { minArgs: 1, maxArgs: Infinity, fn: (...args) => args.find(a => !isEmpty(a)) ?? null },
+    concat: { minArgs: 1, maxArgs: Infinity, fn: (...args) => args.map(a => (isEmpty(a) ? '' : String(a))).join('') },
+    upper: { minArgs: 1, maxArgs: 1, fn: a => (isEmpty(a) ? a : String(a).toUpperCase()) },
+    lower: { minArgs: 1, maxArgs: 1, fn: a => (isEmpty(a) ? a : String(a).toLowerCase()) },
+    trim: { minArgs: 1, maxArgs: 1, fn: a => (isEmpty(a) ? a : String(a).trim()) },
+    len: { minArgs: 1, maxArgs: 1, fn: a => (isEmpty(a) ? 0 : String(a).length) },
+    abs: { minArgs: 1, maxArgs: 1, fn: a => numericResult(Math.abs(toNumber(a))) },
+    round: {
+        minArgs: 1,
+        maxArgs: 2,
+        fn: (a, digits = 0) => {
+            const factor = Math.pow(10, toNumber(digits) || 0);
+            return numericResult(Math.round(toNumber(a) * factor) / factor);
+        },
+    },
+    year: { minArgs: 1, maxArgs: 1, fn: datePart(d => d.getFullYear()) },
+    month: { minArgs: 1, maxArgs: 1, fn: datePart(d => d.getMonth() + 1) },
+    day: { minArgs: 1, maxArgs: 1, fn: datePart(d => d.getDate()) },
+    weekday: { minArgs: 1, maxArgs: 1, fn: datePart(d => d.getDay()) }, // 0 = Sunday
+    hour: { minArgs: 1, maxArgs: 1, fn: datePart(d => d.getHours()) },
+    days_between: {
+        minArgs: 2,
+        maxArgs: 2,
+        fn: (a, b) => {
+            const start = toLocalDate(a);
+            const end = toLocalDate(b);
+            return start && end ? Math.round((end.getTime() - start.getTime()) / 86400000) : null;
+        },
+    },
+};
+
+const KEYWORD_OPERATORS = ['and', 'or', 'not'];
+const SYMBOL_OPERATORS = ['==', '!=', '<>', '<=', '>=', '&&', '||', '+', '-', '*', '/', '%', '&', '<', '>', '=', '!'];
+
+const tokenize = (source: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < source.length) {
+        const ch = source[i];
+
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+
+        if (/[0-9.]/.test(ch)) {
+            const match = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(source.slice(i));
+            if (!match) throw new Error(`Unexpected "${ch}" at position ${i + 1}.`);
+            tokens.push({ type: 'number', value: match[0], pos: i });
+            i += match[0].length;
+            continue;
+        }
+
+        if (ch === '"' || ch === "'") {
+            let value = '';
+            let j = i + 1;
+            while (j < source.length && source[j] !== ch) {
+                if (source[j] === '\\' && j + 1 < source.length) j++;
+                value += source[j];
+                j++;
+            }
+            if (j >= source.length) throw new Error(`Unterminated string starting at position ${i + 1}.`);
+            tokens.push({ type: 'string', value, pos: i });
+            i = j + 1;
+            continue;
+        }
+
+        if (ch === '[' || ch === '`') {
+            const close = ch === '[' ? ']' : '`';
+            const end = source.indexOf(close, i + 1);
+            if (end === -1) throw new Error(`Unterminated column name starting at position ${i + 1}.`);
+            tokens.push({ type: 'column', value: source.slice(i + 1, end), pos: i });
+            i = end + 1;
+            continue;
+        }
+
+        if (/[A-Za-z_]/.test(ch)) {
+            const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+            const word = match[0];
+            tokens.push({ type: KEYWORD_OPERATORS.includes(word.toLowerCase()) ? 'operator' : 'identifier', value: word, pos: i });
+            i += word.length;
+            continue;
+        }
+
+        if (ch === '(') { tokens.push({ type: 'lparen', value: ch, pos: i }); i++; continue; }
+        if (ch === ')') { tokens.push({ type: 'rparen', value: ch, pos: i }); i++; continue; }
+        if (ch === ',') { tokens.push({ type: 'comma', value: ch, pos: i }); i++; continue; }
+
+        const op = SYMBOL_OPERATORS.find(o => source.startsWith(o, i));
+        if (op) {
+            tokens.push({ type: 'operator', value: op, pos: i });
+            i += op.length;
+            continue;
+        }
+
+        throw new Error(`Unexpected "${ch}" at position ${i + 1}.`);
+    }
+
+    return tokens;
+};
+
+// Normalizes operator aliases so the evaluator only has to handle one spelling of each.
+const canonicalOperator = (op: string): string => {
+    switch (op.toLowerCase()) {
+        case '&&': return 'and';
+        case '||': return 'or';
+        case '!': return 'not';
+        case '=': return '==';
+        case '<>': return '!=';
+        default: return op.toLowerCase();
+    }
+};
+
+const BINARY_PRECEDENCE: string[][] = [
+    ['or'],
+    ['and'],
+    ['==', '!=', '<', '>', '<=', '>='],
+    ['+', '-', '&'],
+    ['*', '/', '%'],
+];
+
+const parse = (tokens: Token[], source: string): ExpressionNode => {
+    let index = 0;
+
+    const peek = (): Token | undefined => tokens[index];
+    const describe = (token?: Token) => (token ? `"${token.value}" at position ${token.pos + 1}` : 'end of expression');
+
+    const expect = (type: TokenType): Token => {
+        const token = peek();
+        if (!token || token.type !== type) {
+            throw new Error(`Expected ${type === 'rparen' ? '")"' : type} but found ${describe(token)}.`);
+        }
+        index++;
+        return token;
+    };
+
+    const parseBinary = (level: number): ExpressionNode => {
+        if (level >= BINARY_PRECEDENCE.length) return parseUnary();
+
+        let left = parseBinary(level + 1);
+        while (true) {
+            const token = peek();
+            if (!token || token.type !== 'operator') break;
+            const op = canonicalOperator(token.value);
+            if (!BINARY_PRECEDENCE[level].includes(op)) break;
+            index++;
+            const right = parseBinary(level + 1);
+            left = { kind: 'binary', op, left, right };
+        }
+        return left;
+    };
+
+    const parseUnary = (): ExpressionNode => {
+        const token = peek();
+        if (token?.type === 'operator') {
+            const op = canonicalOperator(token.value);
+            if (op === '-' || op === 'not') {
+                index++;
+                // `not` binds looser than comparisons, so `not a > b` negates the comparison.
+                const arg = op === 'not' ? parseBinary(2) : parseUnary();
+                return { kind: 'unary', op, arg };
+            }
+            if (op === '+') {
+                index++;
+                return parseUnary();
+            }
+        }
+        return parsePrimary();
+    };
+
+    const parsePrimary = (): ExpressionNode => {
+        const token = peek();
+        if (!token) throw new Error('Unexpected end of expression.');
+        index++;
+
+        switch (token.type) {
+            case 'number':
+                return { kind: 'literal', value: Number(token.value) };
+            case 'string':
+                return { kind: 'literal', value: token.value };
+            case 'column':
+                return { kind: 'column', name: token.value };
+            case 'lparen': {
+                const inner = parseBinary(0);
+                expect('rparen');
+                return inner;
+            }
+            case 'identifier': {
+                const lower = token.value.toLowerCase();
+                if (peek()?.type === 'lparen') {
+                    const fn = Object.hasOwn(FUNCTIONS, lower) ? FUNCTIONS[lower] : undefined;
+                    if (!fn) throw new Error(`Unknown function "${token.value}" at position ${token.pos + 1}.`);
+                    index++;
+                    const args: ExpressionNode[] = [];
+                    if (peek()?.type !== 'rparen') {
+                        args.push(parseBinary(0));
+                        while (peek()?.type === 'comma') {
+                            index++;
+                            args.push(parseBinary(0));
+                        }
+                    }
+                    expect('rparen');
+                    if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+                        throw new Error(`Function "${lower}" was given ${args.length} argument(s).`);
+                    }
+                    return { kind: 'call', name: lower, args };
+                }
+                if (lower === 'true') return { kind: 'literal', value: true };
+                if (lower === 'false') return { kind: 'literal', value: false };
+                if (lower === 'null') return { kind: 'literal', value: null };
+                return { kind: 'column', name: token.value };
+            }
+            default:
+                throw new Error(`Unexpected ${describe(token)} in "${source}".`);
+        }
+    };
+
+    const ast = parseBinary(0);
+    if (index < tokens.length) {
+        throw new Error(`Unexpected ${describe(tokens[index])}.`);
+    }
+    return ast;
+};
+
+const compareValues = (a: any, b: any): number | null => {
+    if (isEmpty(a) || isEmpty(b)) return null;
+    const numA = toNumber(a);
+    const numB = toNumber(b);
+    if (!isNaN(numA) && !isNaN(numB)) return numA - numB;
+    return String(a).localeCompare(String(b));
+};
+
+const evaluate = (node: ExpressionNode, row: Record<string, any>): any => {
+    switch (node.kind) {
+        case 'literal':
+            return node.value;
+        case 'column':
+            return row[node.name] ?? null;
+        case 'unary': {
+            const value = evaluate(node.arg, row);
+            if (node.op === 'not') return !isTruthy(value);
+            return isEmpty(value) ? null : numericResult(-toNumber(value));
+        }
+        case 'call':
+            return FUNCTIONS[node.name].fn(...node.args.map(arg => evaluate(arg, row)));
+        case 'binary': {
+            if (node.op === 'and') return isTruthy(evaluate(node.left, row)) && isTruthy(evaluate(node.right, row));
+            if (node.op === 'or') return isTruthy(evaluate(node.left, row)) || isTruthy(evaluate(node.right, row));
+
+            const left = evaluate(node.left, row);
+            const right = evaluate(node.right, row);
+
+            if (node.op === '&') {
+                return `${isEmpty(left) ? '' : left}${isEmpty(right) ? '' : right}`;
+            }
+            if (node.op === '==') return compareValues(left, right) === 0 || (isEmpty(left) && isEmpty(right));
+            if (node.op === '!=') return !(compareValues(left, right) === 0 || (isEmpty(left) && isEmpty(right)));
+            if (['<', '>', '<=', '>='].includes(node.op)) {
+                const cmp = compareValues(left, right);
+                if (cmp === null) return false;
+                switch (node.op) {
+                    case '<': return cmp < 0;
+                    case '>': return cmp > 0;
+                    case '<=': return cmp <= 0;
+                    default: return cmp >= 0;
+                }
+            }
+
+            if (isEmpty(left) || isEmpty(right)) return null;
+            const a = toNumber(left);
+            const b = toNumber(right);
+            switch (node.op) {
+                case '+': return numericResult(a + b);
+                case '-': return numericResult(a - b);
+                case '*': return numericResult(a * b);
+                case '/': return numericResult(a / b);
+                case '%': return numericResult(a % b);
+                default: return null;
+            }
+        }
+    }
+};
+
+const collectColumns = (node: ExpressionNode, into: Set<string>): Set<string> => {
+    switch (node.kind) {
+        case 'column': into.add(node.name); break;
+        case 'unary': collectColumns(node.arg, into); break;
+        case 'binary': collectColumns(node.left, into); collectColumns(node.right, into); break;
+        case 'call': node.args.forEach(arg => collectColumns(arg, into)); break;
+    }
+    return into;
+};
+
+export const compileExpression = (source: string): CompiledExpression => {
+    if (!source || !source.trim()) {
+        throw new Error('The expression is empty.');
+    }
+    const ast = parse(tokenize(source), source);
+    return {
+        columns: [...collectColumns(ast, new Set())],
+        evaluate: (row) => evaluate(ast, row),
+    };
+};
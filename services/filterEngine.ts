@@ -0,0 +1,151 @@
+import { FilterNode, FilterRule, FilterGroup, FilterCondition, ColumnType, CompareOptions } from '../types';
+import { compareValues, valuesEqual } from './comparison';
+
+export const FILTER_CONDITIONS: FilterCondition[] = [
+    'equals', 'not_equals', 'gt', 'lt', 'gte', 'lte', 'contains', 'not_contains',
+    'in', 'not_in', 'between', 'is_null', 'is_not_null', 'starts_with', 'ends_with', 'matches_regex',
+];
+
+const CONDITION_LABELS: Record<FilterCondition, string> = {
+    equals: '=',
+    not_equals: '≠',
+    gt: '>',
+    lt: '<',
+    gte: '≥',
+    lte: '≤',
+    contains: 'contains',
+    not_contains: 'does not contain',
+    in: 'is one of',
+    not_in: 'is not one of',
+    between: 'is between',
+    is_null: 'is empty',
+    is_not_null: 'is not empty',
+    starts_with: 'starts with',
+    ends_with: 'ends with',
+    matches_regex: 'matches',
+};
+
+const isNumeric = (val: any): boolean => !isNaN(parseFloat(val)) && isFinite(val);
+
+const isEmpty = (val: any): boolean => val === null || val === undefined || String(val).trim() === '';
+
+export const isFilterGroup = (node: FilterNode): node is FilterGroup => Array.isArray((node as FilterGroup).conditions);
+
+// Filter params are either a single rule ({ column, condition, value }) as produced by older steps,
+// or a group ({ logic, conditions }). Both normalize to a tree.
+export const normalizeFilter = (params: any): FilterNode => {
+    if (params && Array.isArray(params.conditions)) {
+        return {
+            logic: params.logic === 'or' ? 'or' : 'and',
+            conditions: params.conditions.map(normalizeFilter),
+        };
+    }
+    return {
+        column: params?.column,
+        condition: params?.condition,
+        value: params?.value,
+        values: params?.values,
+        case_sensitive: params?.case_sensitive,
+    };
+};
+
+export const getFilterColumns = (node: FilterNode): string[] => {
+    if (isFilterGroup(node)) return [...new Set(node.conditions.flatMap(getFilterColumns))];
+    return node.column ? [node.column] : [];
+};
+
+// `in` and `between` read `values`; a comma-separated `value` is accepted as a fallback.
+const getRuleValues = (rule: FilterRule): any[] => {
+    if (Array.isArray(rule.values) && rule.values.length > 0) return rule.values;
+    if (rule.value === undefined || rule.value === null) return [];
+    return String(rule.value).split(',').map(v => v.trim());
+};
+
+const regexCache = new Map<string, RegExp>();
+
+const getRegex = (pattern: string, caseSensitive = false): RegExp => {
+    const cacheKey = `${caseSensitive ? 's' : 'i'}:${pattern}`;
+    let regex = regexCache.get(cacheKey);
+    if (!regex) {
+        try {
+            regex = new RegExp(pattern, caseSensitive ? '' : 'i');
+        } catch {
+            throw new Error(`"${pattern}" is not a valid regular expression.`);
+        }
+        regexCache.set(cacheKey, regex);
+    }
+    return regex;
+};
+
+// Equality and ordering follow the column's type; text search is case-insensitive unless the rule says otherwise.
+export const evaluateRule = (rule: FilterRule, cellValue: any, type: ColumnType): boolean => {
+    const equalityOptions: CompareOptions = { caseSensitive: rule.case_sensitive ?? true };
+    const searchCase = (val: any) => (rule.case_sensitive ? String(val ?? '') : String(val ?? '').toLowerCase());
+    const text = searchCase(cellValue);
+    const needle = searchCase(rule.value);
+    const ordered = (test: (cmp: number) => boolean, bound: any) => {
+        if (isEmpty(cellValue) || isEmpty(bound)) return false;
+        return test(compareValues(cellValue, bound, type));
+    };
+
+    switch (rule.condition) {
+        case 'equals': return valuesEqual(cellValue, rule.value, type, equalityOptions);
+        case 'not_equals': return !valuesEqual(cellValue, rule.value, type, equalityOptions);
+        case 'gt': return ordered(cmp => cmp > 0, rule.value);
+        case 'lt': return ordered(cmp => cmp < 0, rule.value);
+        case 'gte': return ordered(cmp => cmp >= 0, rule.value);
+        case 'lte': return ordered(cmp => cmp <= 0, rule.value);
+        case 'contains': return !isEmpty(cellValue) && text.includes(needle);
+        case 'not_contains': return !text.includes(needle);
+        case 'starts_with': return !isEmpty(cellValue) && text.startsWith(needle);
+        case 'ends_with': return !isEmpty(cellValue) && text.endsWith(needle);
+        case 'is_null': return isEmpty(cellValue);
+        case 'is_not_null': return !isEmpty(cellValue);
+        case 'in': return getRuleValues(rule).some(v => valuesEqual(cellValue, v, type, equalityOptions));
+        case 'not_in': return !getRuleValues(rule).some(v => valuesEqual(cellValue, v, type, equalityOptions));
+        case 'between': {
+            const [min, max] = getRuleValues(rule);
+            return ordered(cmp => cmp >= 0, min) && ordered(cmp => cmp <= 0, max);
+        }
+        case 'matches_regex': return !isEmpty(cellValue) && getRegex(String(rule.value ?? ''), rule.case_sensitive).test(String(cellValue));
+        default: return true;
+    }
+};
+
+// `types` holds the column type of every column the filter mentions.
+export const evaluateFilter = (node: FilterNode, row: Record<string, any>, types: Record<string, ColumnType>): boolean => {
+    if (isFilterGroup(node)) {
+        // An empty group keeps every row, whichever its logic.
+        if (node.conditions.length === 0) return true;
+        return node.logic === 'or'
+            ? node.conditions.some(child => evaluateFilter(child, row, types))
+            : node.conditions.every(child => evaluateFilter(child, row, types));
+    }
+    return evaluateRule(node, row[node.column], types[node.column] || 'string');
+};
+
+const describeRule = (rule: FilterRule): string => {
+    const label = CONDITION_LABELS[rule.condition] || rule.condition;
+    switch (rule.condition) {
+        case 'is_null':
+        case 'is_not_null':
+            return `${rule.column} ${label}`;
+        case 'in':
+        case 'not_in':
+            return `${rule.column} ${label} (${getRuleValues(rule).join(', ')})`;
+        case 'between': {
+            const [min, max] = getRuleValues(rule);
+            return `${rule.column} ${label} ${min} and ${max}`;
+        }
+        case 'matches_regex':
+            return `${rule.column} ${label} /${rule.value}/`;
+        default:
+            return `${rule.column} ${label} ${typeof rule.value === 'string' && !isNumeric(rule.value) ? `"${rule.value}"` : rule.value}`;
+    }
+};
+
+export const describeFilter = (node: FilterNode, nested = false): string => {
+    if (!isFilterGroup(node)) return describeRule(node);
+    const text = node.conditions.map(child => describeFilter(child, true)).join(node.logic === 'or' ? ' OR ' : ' AND ');
+    return nested && node.conditions.length > 1 ? `(${text})` : text;
+};
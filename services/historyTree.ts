@@ -0,0 +1,49 @@
+import { v4 as uuidv4 } from 'uuid';
+import { HistoryEntry, TableData, Step, ColumnSchema } from '../types';
+
+export const createHistoryEntry = (parentId: string | null, data: TableData, steps: Step[], schema: ColumnSchema): HistoryEntry => ({
+    id: uuidv4(),
+    parentId,
+    data,
+    steps,
+    schema,
+});
+
+export const findEntry = (history: HistoryEntry[], id: string | null): HistoryEntry | undefined => history.find(entry => entry.id === id);
+
+// Children in the order they were created.
+export const getChildren = (history: HistoryEntry[], id: string): HistoryEntry[] => history.filter(entry => entry.parentId === id);
+
+// The entries from the loaded file down to `id`, inclusive.
+export const getLineage = (history: HistoryEntry[], id: string): HistoryEntry[] => {
+    const lineage: HistoryEntry[] = [];
+    let entry = findEntry(history, id);
+    while (entry) {
+        lineage.unshift(entry);
+        entry = findEntry(history, entry.parentId);
+    }
+    return lineage;
+};
+
+export const isAncestorOf = (history: HistoryEntry[], ancestorId: string, id: string): boolean => {
+    return getLineage(history, id).some(entry => entry.id === ancestorId);
+};
+
+// Follows the newest child until the end of the branch.
+export const getBranchTip = (history: HistoryEntry[], id: string): string => {
+    let tip = id;
+    let children = getChildren(history, tip);
+    while (children.length > 0) {
+        tip = children[children.length - 1].id;
+        children = getChildren(history, tip);
+    }
+    return tip;
+};
+
+// The entry redo moves to: one step from `currentId` towards `headId`, the end of the branch last worked on.
+export const getRedoEntry = (history: HistoryEntry[], currentId: string, headId: string): HistoryEntry | undefined => {
+    if (currentId === headId) return undefined;
+    const lineage = getLineage(history, headId);
+    const index = lineage.findIndex(entry => entry.id === currentId);
+    return index === -1 ? undefined : lineage[index + 1];
+};
@@ -0,0 +1,151 @@
+import { TableData, JoinType, JoinStats } from '../types';
+
+export const JOIN_TYPES: JoinType[] = ['inner', 'left', 'right', 'full'];
+
+export const DEFAULT_JOIN_SUFFIXES: [string, string] = ['', '_right'];
+
+export interface JoinParams {
+    how: JoinType;
+    leftOn: string[];
+    rightOn: string[];
+    suffixes: [string, string];
+}
+
+// Empty keys never match, the same way NULL never equals NULL in SQL.
+const keyOf = (row: Record<string, any>, columns: string[]): string | null => {
+    const values = columns.map(c => row[c]);
+    if (values.some(v => v === null || v === undefined || v === '')) return null;
+    return JSON.stringify(values.map(v => String(v)));
+};
+
+const indexRows = (rows: Record<string, any>[], columns: string[]): Map<string, number[]> => {
+    const index = new Map<string, number[]>();
+    rows.forEach((row, i) => {
+        const key = keyOf(row, columns);
+        if (key === null) return;
+        const bucket = index.get(key);
+        if (bucket) bucket.push(i);
+        else index.set(key, [i]);
+    });
+    return index;
+};
+
+/**
+ * Works out the output headers. Key columns with the same name on both sides are merged into one;
+ * any other header that exists on both sides gets the matching suffix.
+ */
+const planColumns = (left: TableData, right: TableData, params: JoinParams) => {
+    const sharedKeys = params.leftOn.filter((column, i) => params.rightOn[i] === column);
+    const rightColumns = right.headers.filter(h => !sharedKeys.includes(h));
+    const clashes = new Set(rightColumns.filter(h => left.headers.includes(h)));
+    const [leftSuffix, rightSuffix] = params.suffixes;
+
+    if (clashes.size > 0 && leftSuffix === rightSuffix) {
+        throw new Error(`Columns ${[...clashes].join(', ')} exist in both tables; the join needs two different suffixes.`);
+    }
+
+    const leftNames = new Map(left.headers.map(h => [h, clashes.has(h) ? `${h}${leftSuffix}` : h]));
+    const rightNames = new Map(rightColumns.map(h => [h, clashes.has(h) ? `${h}${rightSuffix}` : h]));
+    const headers = [...leftNames.values(), ...rightNames.values()];
+    if (new Set(headers).size !== headers.length) {
+        throw new Error('The join suffixes produce duplicate column names. Choose different suffixes.');
+    }
+
+    return { sharedKeys, leftNames, rightNames, headers };
+};
+
+export const joinTables = (left: TableData, right: TableData, params: JoinParams): TableData => {
+    const { sharedKeys, leftNames, rightNames, headers } = planColumns(left, right, params);
+    const rightIndex = indexRows(right.rows, params.rightOn);
+    const usedRight = new Set<number>();
+    const rows: Record<string, any>[] = [];
+
+    // Spreading the left row keeps its identity, so the preview doesn't count it as removed and re-added.
+    const fromLeft = (leftRow: Record<string, any>): Record<string, any> => {
+        const row: Record<string, any> = { ...leftRow };
+        leftNames.forEach((name, column) => {
+            if (name !== column) {
+                row[name] = leftRow[column];
+                delete row[column];
+            }
+        });
+        return row;
+    };
+
+    const fillRight = (target: Record<string, any>, rightRow: Record<string, any> | null) => {
+        rightNames.forEach((name, column) => {
+            target[name] = rightRow ? rightRow[column] : null;
+        });
+    };
+
+    for (const leftRow of left.rows) {
+        const key = keyOf(leftRow, params.leftOn);
+        const matches = key === null ? undefined : rightIndex.get(key);
+
+        if (!matches) {
+            if (params.how === 'left' || params.how === 'full') {
+                const row = fromLeft(leftRow);
+                fillRight(row, null);
+                rows.push(row);
+            }
+            continue;
+        }
+
+        for (const rightIdx of matches) {
+            usedRight.add(rightIdx);
+            const row = fromLeft(leftRow);
+            fillRight(row, right.rows[rightIdx]);
+            rows.push(row);
+        }
+    }
+
+    if (params.how === 'right' || params.how === 'full') {
+        right.rows.forEach((rightRow, i) => {
+            if (usedRight.has(i)) return;
+            // Built from scratch: a lookup row must not borrow the identity of a row in the main table.
+            const row: Record<string, any> = {};
+            leftNames.forEach(name => {
+                row[name] = null;
+            });
+            sharedKeys.forEach(column => {
+                row[leftNames.get(column)!] = rightRow[column];
+            });
+            fillRight(row, rightRow);
+            rows.push(row);
+        });
+    }
+
+    return { headers, rows };
+};
+
+export const getJoinStats = (left: TableData, right: TableData, table: string, params: JoinParams): JoinStats => {
+    const rightIndex = indexRows(right.rows, params.rightOn);
+    const usedKeys = new Set<string>();
+    let matchedRows = 0;
+
+    for (const leftRow of left.rows) {
+        const key = keyOf(leftRow, params.leftOn);
+        if (key !== null && rightIndex.has(key)) {
+            matchedRows++;
+            usedKeys.add(key);
+        }
+    }
+
+    let unmatchedRight = 0;
+    let duplicateKeys = 0;
+    rightIndex.forEach((bucket, key) => {
+        if (!usedKeys.has(key)) unmatchedRight += bucket.length;
+        if (bucket.length > 1) duplicateKeys++;
+    });
+    // Lookup rows with an empty key can never match.
+    unmatchedRight += right.rows.length - [...rightIndex.values()].reduce((total, bucket) => total + bucket.length, 0);
+
+    return {
+        table,
+        how: params.how,
+        matchedRows,
+        unmatchedLeft: left.rows.length - matchedRows,
+        unmatchedRight,
+        duplicateKeys,
+    };
+};
@@ -0,0 +1,250 @@
+import { GoogleGenAI } from '@google/genai';
+import { LLMProviderId, LLMSettings, Operation } from '../types';
+
+export type LLMTask = 'parse_command' | 'describe_columns';
+
+export interface LLMRequest {
+    task: LLMTask;
+    systemInstruction: string;
+    prompt: string;
+    // Response schema in the Gemini dialect (Type.OBJECT, Type.STRING, ...).
+    schema: any;
+    // The raw inputs behind the prompt, for providers that don't read prompts (the mock).
+    input: Record<string, any>;
+}
+
+export interface LLMProvider {
+    id: LLMProviderId;
+    // Resolves to the parsed JSON response; rejects on transport or parse errors.
+    generateJson: (request: LLMRequest) => Promise<any>;
+}
+
+export interface ProviderOption {
+    id: LLMProviderId;
+    label: string;
+    defaultModel: string;
+}
+
+export const PROVIDER_OPTIONS: ProviderOption[] = [
+    { id: 'gemini', label: 'Google Gemini', defaultModel: 'gemini-2.5-flash' },
+    { id: 'openai', label: 'OpenAI-compatible endpoint', defaultModel: 'llama3.1' },
+    { id: 'mock', label: 'Mock (offline, deterministic)', defaultModel: 'mock' },
+];
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+const isLoopbackUrl = (url: string): boolean => {
+    try {
+        const { hostname } = new URL(url);
+        return hostname === 'localhost' || hostname.endsWith('.localhost') || hostname === '[::1]' || /^127(\.\d{1,3}){3}$/.test(hostname);
+    } catch {
+        return false;
+    }
+};
+
+// Whether table data leaves this machine: an OpenAI-compatible server is local when its base URL is.
+export const isRemoteProvider = (settings: LLMSettings): boolean => {
+    if (settings.provider === 'mock') return false;
+    if (settings.provider === 'openai') return !isLoopbackUrl(settings.baseUrl || DEFAULT_OPENAI_BASE_URL);
+    return true;
+};
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = { provider: 'gemini', model: 'gemini-2.5-flash' };
+
+const SETTINGS_KEY = 'csv-agent-editor:llm-settings';
+const SESSION_API_KEY = 'csv-agent-editor:api-key';
+
+export const loadLLMSettings = (): LLMSettings => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+        if (stored && PROVIDER_OPTIONS.some(option => option.id === stored.provider)) {
+            const apiKey = stored.rememberApiKey ? stored.apiKey : sessionStorage.getItem(SESSION_API_KEY) || stored.apiKey;
+            const settings: LLMSettings = { ...DEFAULT_LLM_SETTINGS, ...stored, apiKey };
+            // Keys saved before remembering was a choice move out of localStorage.
+            if (stored.apiKey && !stored.rememberApiKey) saveLLMSettings(settings);
+            return settings;
+        }
+    } catch {
+        // Unreadable settings fall back to the defaults.
+    }
+    return DEFAULT_LLM_SETTINGS;
+};
+
+// The API key goes to sessionStorage, and is gone when the tab closes, unless the user chose to remember it.
+export const saveLLMSettings = (settings: LLMSettings) => {
+    const { apiKey, ...rest } = settings;
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings.rememberApiKey ? settings : rest));
+    if (apiKey && !settings.rememberApiKey) {
+        sessionStorage.setItem(SESSION_API_KEY, apiKey);
+    } else {
+        sessionStorage.removeItem(SESSION_API_KEY);
+    }
+};
+
+// Models sometimes wrap JSON in a markdown fence even when asked not to.
+const parseJsonText = (text: string): any => {
+    const trimmed = text.trim();
+    const fenced = /^```(?:json)?\s*([\s\S]*?)\s*```$/.exec(trimmed);
+    return JSON.parse(fenced ? fenced[1] : trimmed);
+};
+
+// Gemini's schema dialect uses upper-case type names; JSON Schema wants them lower-case.
+const toJsonSchema = (schema: any): any => {
+    if (Array.isArray(schema)) return schema.map(toJsonSchema);
+    if (!schema || typeof schema !== 'object') return schema;
+    const result: Record<string, any> = {};
+    for (const [key, value] of Object.entries(schema)) {
+        if (key === 'type' && typeof value === 'string') {
+            result.type = value.toLowerCase();
+        } else if (key === 'properties') {
+            result.properties = Object.fromEntries(Object.entries(value as object).map(([name, prop]) => [name, toJsonSchema(prop)]));
+        } else {
+            result[key] = toJsonSchema(value);
+        }
+    }
+    return result;
+};
+
+const geminiClients = new Map<string, GoogleGenAI>();
+
+const createGeminiProvider = (settings: LLMSettings): LLMProvider => {
+    const apiKey = settings.apiKey || process.env.API_KEY || '';
+    if (!apiKey) {
+        console.warn("No Gemini API key: set GEMINI_API_KEY or enter a key in Settings.");
+    }
+    let ai = geminiClients.get(apiKey);
+    if (!ai) {
+        ai = new GoogleGenAI({ apiKey });
+        geminiClients.set(apiKey, ai);
+    }
+    const client = ai;
+
+    return {
+        id: 'gemini',
+        generateJson: async (request) => {
+            const response = await client.models.generateContent({
+                model: settings.model || DEFAULT_LLM_SETTINGS.model,
+                contents: request.prompt,
+                config: {
+                    systemInstruction: request.systemInstruction,
+                    responseMimeType: "application/json",
+                    responseSchema: request.schema,
+                },
+            });
+            return parseJsonText(response.text);
+        },
+    };
+};
+
+// Talks to any server implementing the OpenAI chat completions API: OpenAI itself, llama.cpp, Ollama, vLLM, LM Studio.
+const createOpenAICompatibleProvider = (settings: LLMSettings): LLMProvider => {
+    const baseUrl = (settings.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+
+    return {
+        id: 'openai',
+        generateJson: async (request) => {
+            const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+            if (settings.apiKey) headers.Authorization = `Bearer ${settings.apiKey}`;
+
+            let response: Response;
+            try {
+                response = await fetch(`${baseUrl}/chat/completions`, {
+                    method: 'POST',
+                    headers,
+                    body: JSON.stringify({
+                        model: settings.model,
+                        temperature: 0,
+                        messages: [
+                            { role: 'system', content: request.systemInstruction },
+                            { role: 'user', content: request.prompt },
+                        ],
+                        response_format: {
+                            type: 'json_schema',
+                            json_schema: { name: request.task, schema: toJsonSchema(request.schema) },
+                        },
+                    }),
+                });
+            } catch (error) {
+                throw new Error(`Could not reach ${baseUrl}. Is the server running and does it allow requests from this page (CORS)?`);
+            }
+
+            if (!response.ok) {
+                const body = await response.text().catch(() => '');
+                throw new Error(`${response.status} ${response.statusText}: ${body.slice(0, 300)}`);
+            }
+            const json = await response.json();
+            const content = json?.choices?.[0]?.message?.content;
+            if (typeof content !== 'string') {
+                throw new Error('The endpoint returned no message content.');
+            }
+            return parseJsonText(content);
+        },
+    };
+};
+
+// Reads `input` rather than the prompt, so the same input always gives the same answer and nothing leaves the browser.
+const createMockProvider = (): LLMProvider => ({
+    id: 'mock',
+    generateJson: async (request) => {
+        if (request.task === 'describe_columns') {
+            const headers: string[] = request.input.headers || [];
+            const rows: Record<string, any>[] = request.input.rows || [];
+            return headers.map(header => {
+                const examples = [...new Set(rows.map(row => row[header]).filter(v => v !== null && v !== undefined && v !== ''))].slice(0, 3);
+                return {
+                    columnName: header,
+                    description: examples.length ? `Example values: ${examples.join(', ')}.` : 'No example values in the first rows.',
+                };
+            });
+        }
+
+        // A command that is itself a step, a list of steps or a { steps } recipe runs as given.
+        const command: string = request.input.command || '';
+        try {
+            const parsed = JSON.parse(command);
+            const steps = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.steps) ? parsed.steps : [parsed];
+            if (steps.every((step: any) => step && typeof step.op === 'string')) {
+                return { steps: steps.map((step: any) => ({ params: {}, explanation: `Run ${step.op}.`, ...step })) };
+            }
+        } catch {
+            // Not JSON; fall through.
+        }
+
+        const headers: string[] = request.input.headers || [];
+        const [first, second] = headers;
+        return {
+            steps: [{
+                op: Operation.Error,
+                params: {
+                    message: 'The mock provider does not interpret natural language. Type a step as JSON to run it, or pick a real model in Settings.',
+                    suggestions: first ? [
+                        JSON.stringify({ op: Operation.Sort, params: { columns: [first], directions: ['asc'] } }),
+                        JSON.stringify({ op: Operation.Dedupe, params: { keys: [first] } }),
+                        ...(second ? [JSON.stringify({ op: Operation.RemoveColumn, params: { column_to_remove: second } })] : []),
+                    ] : [],
+                },
+                explanation: 'Mock provider response.',
+            }],
+        };
+    },
+});
+
+// Gemini can't answer without a key; the other providers are assumed reachable until a request fails.
+export const isProviderConfigured = (settings: LLMSettings): boolean => {
+    return settings.provider !== 'gemini' || Boolean(settings.apiKey || process.env.API_KEY);
+};
+
+export const describeProvider = (settings: LLMSettings): string => {
+    const label = PROVIDER_OPTIONS.find(option => option.id === settings.provider)?.label || settings.provider;
+    return settings.provider === 'mock' ? label : `${label} (${settings.model})`;
+};
+
+export const createProvider = (settings: LLMSettings): LLMProvider => {
+    switch (settings.provider) {
+        case 'openai': return createOpenAICompatibleProvider(settings);
+        case 'mock': return createMockProvider();
+        case 'gemini':
+        default:
+            return createGeminiProvider(settings);
+    }
+};
@@ -0,0 +1,169 @@
+import { Step, Operation, SortDirection, FilterCondition, FilterRule } from '../types';
+
+// Deterministic grammar for the most common commands. It runs before any model is called and is
+// the only parser available when no model is configured, so it must never guess: anything it
+// doesn't fully understand returns null.
+
+export const LOCAL_PARSER_EXAMPLES = [
+    'sort by {col} desc',
+    'remove column {col}',
+    'filter {col} > 10',
+    'rename {col} to new_name',
+    'dedupe by {col}',
+    'fill blanks in {col} with 0',
+];
+
+const stripQuotes = (text: string): string => text.trim().replace(/^(["'`])(.*)\1$/, '$2').replace(/^\[(.*)\]$/, '$1');
+
+const matchColumn = (text: string, headers: string[]): string | null => {
+    const name = stripQuotes(text);
+    return headers.find(h => h === name) ?? headers.find(h => h.toLowerCase() === name.toLowerCase()) ?? null;
+};
+
+// "a, b and c" → ['a', 'b', 'c'], but only if every part is a column.
+const matchColumnList = (text: string, headers: string[]): string[] | null => {
+    const whole = matchColumn(text, headers);
+    if (whole) return [whole];
+    const columns = text.split(/\s*,\s*(?:and\s+)?|\s+and\s+/i).map(part => matchColumn(part, headers));
+    return columns.every(Boolean) ? (columns as string[]) : null;
+};
+
+const parseSort = (text: string, headers: string[]): Step[] | null => {
+    const match = /^(?:sort|order)(?:\s+(?:the\s+)?(?:rows|data|table))?\s+by\s+(.+)$/i.exec(text);
+    if (!match) return null;
+    const columns: string[] = [];
+    const directions: SortDirection[] = [];
+    for (const part of match[1].split(/\s*,\s*/)) {
+        const partMatch = /^(.+?)(?:\s+(?:in\s+)?(asc|ascending|desc|descending)(?:\s+order)?)?$/i.exec(part);
+        const column = partMatch && matchColumn(partMatch[1], headers);
+        if (!column) return null;
+        columns.push(column);
+        directions.push(partMatch![2] && partMatch![2].toLowerCase().startsWith('desc') ? SortDirection.Desc : SortDirection.Asc);
+    }
+    const described = columns.map((c, i) => `${c} (${directions[i] === SortDirection.Desc ? 'descending' : 'ascending'})`).join(', ');
+    return [{ op: Operation.Sort, params: { columns, directions }, explanation: `Sort by ${described}.` }];
+};
+
+const parseRemoveColumn = (text: string, headers: string[]): Step[] | null => {
+    const match = /^(?:remove|drop|delete)\s+(?:the\s+)?columns?\s+(.+)$/i.exec(text);
+    const columns = match && matchColumnList(match[1], headers);
+    if (!columns) return null;
+    return columns.map(column => ({ op: Operation.RemoveColumn, params: { column_to_remove: column }, explanation: `Remove the ${column} column.` }));
+};
+
+const parseRename = (text: string, headers: string[]): Step[] | null => {
+    const match = /^rename\s+(?:(?:the\s+)?column\s+)?(.+?)\s+(?:to|as)\s+(.+)$/i.exec(text);
+    const column = match && matchColumn(match[1], headers);
+    if (!column) return null;
+    const newName = stripQuotes(match![2]);
+    if (!newName) return null;
+    return [{ op: Operation.RenameColumn, params: { old_name: column, new_name: newName }, explanation: `Rename ${column} to ${newName}.` }];
+};
+
+const parseDedupe = (text: string, headers: string[]): Step[] | null => {
+    const match = /^(?:dedupe|de-dupe|deduplicate|(?:remove|drop)\s+duplicates?)(?:\s+rows)?(?:\s+(?:by|on|using)\s+(.+))?$/i.exec(text);
+    if (!match) return null;
+    const keys = match[1] ? matchColumnList(match[1], headers) : headers;
+    if (!keys) return null;
+    const explanation = match[1] ? `Remove rows with a duplicate ${keys.join(' + ')}.` : 'Remove fully duplicate rows.';
+    return [{ op: Operation.Dedupe, params: { keys }, explanation }];
+};
+
+const parseFill = (text: string, headers: string[]): Step[] | null => {
+    const match = /^fill\s+(?:the\s+)?(?:blanks?|empty|missing|nulls?|na|n\/a)(?:\s+(?:values|cells))?\s+(?:in|of)\s+(.+?)\s+with\s+(.+)$/i.exec(text);
+    const columns = match && matchColumnList(match[1], headers);
+    if (!columns) return null;
+    const value = stripQuotes(match![2]);
+    return columns.map(column => ({ op: Operation.FillNA, params: { fill_column: column, fill_value: value }, explanation: `Fill empty cells in ${column} with ${value}.` }));
+};
+
+const SYMBOL_CONDITIONS: Record<string, FilterCondition> = {
+    '>=': 'gte', '<=': 'lte', '!=': 'not_equals', '<>': 'not_equals', '==': 'equals', '=': 'equals', '>': 'gt', '<': 'lt',
+};
+
+// Longer phrases first, so "is not" wins over "is".
+const WORD_CONDITIONS: [RegExp, FilterCondition][] = [
+    [/^(.+?)\s+is\s+not\s+(?:empty|blank|missing|null)$/i, 'is_not_null'],
+    [/^(.+?)\s+is\s+(?:empty|blank|missing|null)$/i, 'is_null'],
+    [/^(.+?)\s+(?:does\s+not|doesn't)\s+contain\s+(.+)$/i, 'not_contains'],
+    [/^(.+?)\s+contains\s+(.+)$/i, 'contains'],
+    [/^(.+?)\s+starts\s+with\s+(.+)$/i, 'starts_with'],
+    [/^(.+?)\s+ends\s+with\s+(.+)$/i, 'ends_with'],
+    [/^(.+?)\s+is\s+not\s+(.+)$/i, 'not_equals'],
+    [/^(.+?)\s+(?:is|equals)\s+(.+)$/i, 'equals'],
+];
+
+/**
+ * An unquoted value with a connective, a comma or an operator is probably more than one condition,
+ * so the command is left to a model rather than matched literally. These all decline:
+ *   keep rows where country is US or CA
+ *   show rows where country is not US or CA
+ *   filter price > 10 and < 20
+ *   filter country is US, CA
+ * Quote the value to match it as written: filter country is "Trinidad and Tobago".
+ */
+const isAmbiguousValue = (text: string): boolean =>
+    !/^(["'`]).*\1$/.test(text.trim()) && /\s(?:and|or)\s|,|[<>=!]/i.test(text);
+
+const parseCondition = (text: string, headers: string[]): FilterRule | null => {
+    const symbolMatch = /^(.+?)\s*(>=|<=|!=|<>|==|=|>|<)\s*(.+)$/.exec(text);
+    if (symbolMatch) {
+        const column = matchColumn(symbolMatch[1], headers);
+        if (column) {
+            if (isAmbiguousValue(symbolMatch[3])) return null;
+            return { column, condition: SYMBOL_CONDITIONS[symbolMatch[2]], value: stripQuotes(symbolMatch[3]) };
+        }
+    }
+    for (const [regex, condition] of WORD_CONDITIONS) {
+        const match = regex.exec(text);
+        const column = match && matchColumn(match[1], headers);
+        if (!column) continue;
+        if (match![2] === undefined) return { column, condition };
+        return isAmbiguousValue(match![2]) ? null : { column, condition, value: stripQuotes(match![2]) };
+    }
+    return null;
+};
+
+const parseFilter = (text: string, headers: string[]): Step[] | null => {
+    const match = /^(?:filter|keep|show|only\s+keep|where)(?:\s+(?:the\s+)?rows)?(?:\s+(?:where|with))?\s+(.+)$/i.exec(text);
+    if (!match) return null;
+    const body = match[1];
+    // Splitting is tried first and only kept when every part is a condition. A value that still has
+    // a connective in it declines, as does mixed AND/OR; both need a model.
+    for (const logic of ['and', 'or'] as const) {
+        const parts = body.split(new RegExp(`\\s+${logic}\\s+`, 'i'));
+        if (parts.length < 2) continue;
+        const conditions = parts.map(part => parseCondition(part, headers));
+        if (conditions.every(Boolean)) {
+            return [{ op: Operation.Filter, params: { logic, conditions }, explanation: `Keep rows where ${body}.` }];
+        }
+    }
+    const single = parseCondition(body, headers);
+    if (!single) return null;
+    return [{ op: Operation.Filter, params: { logic: 'and', conditions: [single] }, explanation: `Keep rows where ${body}.` }];
+};
+
+const CLAUSE_PARSERS = [parseSort, parseRemoveColumn, parseRename, parseDedupe, parseFill, parseFilter];
+
+/**
+ * Parses a command such as "dedupe by email, then sort by signup_date desc" into steps.
+ * Returns null unless every clause matches the grammar and names existing columns.
+ */
+export const parseLocally = (command: string, headers: string[]): Step[] | null => {
+    const clauses = command.trim().replace(/[.!]+$/, '').split(/\s*;\s*|,?\s+(?:and\s+)?then\s+/i).filter(Boolean);
+    if (clauses.length === 0) return null;
+
+    const steps: Step[] = [];
+    let current = headers;
+    for (const clause of clauses) {
+        const parsed = CLAUSE_PARSERS.reduce<Step[] | null>((found, parse) => found || parse(clause, current), null);
+        if (!parsed) return null;
+        steps.push(...parsed);
+        // Later clauses refer to columns by their new names.
+        for (const step of parsed) {
+            if (step.op === Operation.RenameColumn) current = current.map(h => (h === step.params.old_name ? step.params.new_name : h));
+            if (step.op === Operation.RemoveColumn) current = current.filter(h => h !== step.params.column_to_remove);
+        }
+    }
+    return steps;
+};
@@ -0,0 +1,44 @@
+import { HistoryEntry, Step, StepContext } from '../types';
+import { applyStep } from './dataProcessor';
+import { applyStepToSchema } from './schemaSync';
+import { validateStep } from './stepValidator';
+import { createHistoryEntry } from './historyTree';
+
+/**
+ * Re-runs `steps` on top of `base`, one history entry per step. A step that no longer fits the
+ * table (say, its column was renamed by an edited step before it) is skipped and keeps its errors
+ * on the entry, so the rest of the pipeline still runs and the editor can flag it.
+ */
+export const replaySteps = (base: HistoryEntry, steps: Step[], context: StepContext = {}, onProgress?: (completed: number, total: number) => void): HistoryEntry[] => {
+    const entries: HistoryEntry[] = [];
+    let previous = base;
+
+    for (const step of steps) {
+        const stepContext = { ...context, schema: previous.schema };
+        const problems = validateStep(previous.data, step, stepContext);
+        let entry: HistoryEntry;
+        if (problems.length > 0) {
+            entry = createHistoryEntry(previous.id, previous.data, [...previous.steps, step], previous.schema);
+            entry.stepErrors = problems.map(problem => problem.message);
+        } else {
+            try {
+                const data = applyStep(previous.data, step, stepContext);
+                entry = createHistoryEntry(previous.id, data, [...previous.steps, step], applyStepToSchema(previous.schema, step, data));
+            } catch (error) {
+                entry = createHistoryEntry(previous.id, previous.data, [...previous.steps, step], previous.schema);
+                entry.stepErrors = [error instanceof Error ? error.message : String(error)];
+            }
+        }
+        entries.push(entry);
+        previous = entry;
+        onProgress?.(entries.length, steps.length);
+    }
+    return entries;
+};
+
+// Index of the first step that differs, i.e. where a replay has to start.
+export const firstChangedIndex = (before: Step[], after: Step[]): number => {
+    let i = 0;
+    while (i < before.length && i < after.length && before[i] === after[i]) i++;
+    return i;
+};
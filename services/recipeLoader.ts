@@ -0,0 +1,28 @@
+import { Step, Operation } from '../types';
+
+// Accepts the `{ steps }` file written by "Export Steps (JSON)" as well as a bare array of steps.
+export const parseRecipe = (text: string): Step[] => {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+
+    const rawSteps = Array.isArray(parsed) ? parsed : parsed?.steps;
+    if (!Array.isArray(rawSteps)) {
+        throw new Error('The file does not contain a "steps" array.');
+    }
+
+    return rawSteps.map((raw, i) => {
+        if (!raw || !Object.values(Operation).includes(raw.op) || raw.op === Operation.Error) {
+            throw new Error(`Step ${i + 1} has an invalid or missing operation.`);
+        }
+        return {
+            op: raw.op,
+            params: raw.params ?? {},
+            explanation: raw.explanation || raw.op,
+            ...(raw.disabled === true ? { disabled: true } : {}),
+        } as Step;
+    });
+};
@@ -0,0 +1,62 @@
+import { TableData, Step, Operation, ColumnSchema, Aggregation } from '../types';
+import { inferColumnTypes } from './typeDetector';
+import { castTargetToColumnType } from './castValues';
+import { getAggregationName } from './aggregations';
+
+export const buildSchema = (data: TableData): ColumnSchema => {
+    const types = inferColumnTypes(data.rows, data.headers);
+    const schema: ColumnSchema = {};
+    data.headers.forEach(h => {
+        schema[h] = { type: types[h] || 'string' };
+    });
+    return schema;
+};
+
+// Columns whose values a step rewrites, so their inferred type may no longer hold.
+const getRewrittenColumns = (step: Step, result: TableData): string[] => {
+    switch (step.op) {
+        case Operation.FillNA: return [step.params.fill_column];
+        case Operation.AddColumn: return [step.params.new_column];
+        case Operation.GroupBy: return (step.params.aggregations || []).map((a: Aggregation) => getAggregationName(a));
+        case Operation.Pivot: return result.headers.filter(h => !(step.params.index_columns || []).includes(h));
+        case Operation.Unpivot: return [step.params.variable_name || 'variable', step.params.value_name || 'value'];
+        default: return [];
+    }
+};
+
+/**
+ * Derives the schema of `result`, the table produced by applying `step` to a table described by `schema`.
+ * Renamed columns keep their type and description, removed columns drop out, and rewritten or new
+ * columns get their type inferred again from the resulting rows. A cast sets the type it converted to.
+ */
+export const applyStepToSchema = (schema: ColumnSchema, step: Step, result: TableData): ColumnSchema => {
+    if (step.disabled) return schema;
+    const sources: Record<string, string> = step.op === Operation.RenameColumn
+        ? { [step.params.new_name]: step.params.old_name }
+        : {};
+    const rewritten = getRewrittenColumns(step, result);
+
+    const toInfer = result.headers.filter(h => rewritten.includes(h) || !schema[sources[h] ?? h]);
+    const types = toInfer.length > 0 ? inferColumnTypes(result.rows, toInfer) : {};
+
+    const newSchema: ColumnSchema = {};
+    result.headers.forEach(h => {
+        const previous = schema[sources[h] ?? h];
+        newSchema[h] = toInfer.includes(h) ? { ...previous, type: types[h] || 'string' } : previous;
+    });
+    if (step.op === Operation.CastColumn && newSchema[step.params.column]) {
+        newSchema[step.params.column] = { ...newSchema[step.params.column], type: castTargetToColumnType(step.params.target_type) };
+    }
+    return newSchema;
+};
+
+// Descriptions arrive asynchronously after import; merges them into a schema without overwriting.
+export const mergeDescriptions = (schema: ColumnSchema, descriptions: Record<string, string>): ColumnSchema => {
+    const newSchema = { ...schema };
+    for (const header in descriptions) {
+        if (newSchema[header] && !newSchema[header].description) {
+            newSchema[header] = { ...newSchema[header], description: descriptions[header] };
+        }
+    }
+    return newSchema;
+};
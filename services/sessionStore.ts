@@ -0,0 +1,225 @@
+import { TableData, LookupTables, HistoryEntry, Step, ColumnSchema, ConditionalFormatRule, Message, SessionSummary } from '../types';
+import { assignRowIds } from './diffEngine';
+import { replayStepsInWorker, EngineTaskOptions } from './engineClient';
+
+// Sessions are split across three stores so that autosave stays cheap: the tables are written when
+// a file or lookup is loaded, the small session state on every change, and the summaries are all
+// the start screen needs to read.
+const DB_NAME = 'csv-agent-editor';
+const DB_VERSION = 1;
+const SUMMARIES = 'summaries';
+const TABLES = 'tables';
+const STATES = 'states';
+
+const MAX_SESSIONS = 10;
+
+interface StoredTables {
+    id: string;
+    original: TableData;
+    lookups: LookupTables;
+    // How the CSV's lines ended. Missing for sessions saved before it was recorded, and for workbooks.
+    newline?: string;
+    finalNewline?: boolean;
+}
+
+// A history entry without its table. The table is rebuilt by replaying the entry's step on its parent.
+interface StoredEntry {
+    id: string;
+    parentId: string | null;
+    step: Step | null;
+    schema: ColumnSchema;
+    stepErrors?: string[];
+}
+
+interface StoredState {
+    id: string;
+    entries: StoredEntry[];
+    currentEntryId: string;
+    headEntryId: string;
+    conditionalFormats: ConditionalFormatRule[];
+    messages: Message[];
+}
+
+export interface SessionState {
+    history: HistoryEntry[];
+    currentEntryId: string;
+    headEntryId: string;
+    conditionalFormats: ConditionalFormatRule[];
+    messages: Message[];
+}
+
+export interface RestoredSession extends SessionState {
+    fileName: string;
+    lookups: LookupTables;
+    newline?: string;
+    finalNewline?: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                for (const store of [SUMMARIES, TABLES, STATES]) {
+                    if (!db.objectStoreNames.contains(store)) db.createObjectStore(store, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // A failed open (e.g. private browsing) shouldn't stick; the next call tries again.
+        dbPromise.catch(() => {
+            dbPromise = null;
+        });
+    }
+    return dbPromise;
+};
+
+const runTransaction = async <T>(stores: string[], mode: IDBTransactionMode, work: (tx: IDBTransaction) => IDBRequest<T> | void): Promise<T | undefined> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(stores, mode);
+        const request = work(tx);
+        tx.oncomplete = () => resolve(request ? request.result : undefined);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+export const listSessions = async (): Promise<SessionSummary[]> => {
+    const summaries = await runTransaction<SessionSummary[]>([SUMMARIES], 'readonly', tx => tx.objectStore(SUMMARIES).getAll());
+    return (summaries || []).sort((a, b) => b.savedAt - a.savedAt);
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+    await runTransaction([SUMMARIES, TABLES, STATES], 'readwrite', tx => {
+        [SUMMARIES, TABLES, STATES].forEach(store => tx.objectStore(store).delete(id));
+    });
+};
+
+// Stores the loaded file and lookups. Called when they change, not on every step.
+export const saveSessionTables = async (id: string, original: TableData, lookups: LookupTables, lineEndings: Pick<StoredTables, 'newline' | 'finalNewline'> = {}): Promise<void> => {
+    const record: StoredTables = { id, original, lookups, ...lineEndings };
+    await runTransaction([TABLES], 'readwrite', tx => {
+        tx.objectStore(TABLES).put(record);
+    });
+};
+
+export const saveSessionState = async (id: string, fileName: string, state: SessionState): Promise<void> => {
+    const current = state.history.find(entry => entry.id === state.currentEntryId);
+    const stored: StoredState = {
+        id,
+        entries: state.history.map(entry => ({
+            id: entry.id,
+            parentId: entry.parentId,
+            step: entry.steps[entry.steps.length - 1] || null,
+            schema: entry.schema,
+            ...(entry.stepErrors ? { stepErrors: entry.stepErrors } : {}),
+        })),
+        currentEntryId: state.currentEntryId,
+        headEntryId: state.headEntryId,
+        conditionalFormats: state.conditionalFormats,
+        messages: state.messages,
+    };
+    const lastStep = current?.steps[current.steps.length - 1];
+    const summary: SessionSummary = {
+        id,
+        fileName,
+        savedAt: Date.now(),
+        rowCount: current?.data.rows.length ?? 0,
+        columnCount: current?.data.headers.length ?? 0,
+        stepCount: current?.steps.length ?? 0,
+        ...(lastStep ? { lastStep: lastStep.explanation } : {}),
+    };
+    await runTransaction([SUMMARIES, STATES], 'readwrite', tx => {
+        tx.objectStore(STATES).put(stored);
+        tx.objectStore(SUMMARIES).put(summary);
+    });
+
+    const stale = (await listSessions()).slice(MAX_SESSIONS);
+    await Promise.all(stale.map(session => deleteSession(session.id)));
+};
+
+/**
+ * Entries are stored parents-first. Each branch is replayed in the engine worker from the deepest
+ * entry that already has its table, then gets its stored ids, schemas and errors back.
+ */
+const rebuildHistory = async (original: TableData, entries: StoredEntry[], lookups: LookupTables, options: EngineTaskOptions = {}): Promise<HistoryEntry[]> => {
+    const byId = new Map(entries.map(stored => [stored.id, stored]));
+    const rebuilt = new Map<string, HistoryEntry>();
+    for (const stored of entries) {
+        if (!stored.step || !stored.parentId || !byId.has(stored.parentId)) {
+            rebuilt.set(stored.id, { id: stored.id, parentId: null, data: original, steps: [], schema: stored.schema });
+        }
+    }
+
+    const parentIds = new Set(entries.map(stored => stored.parentId));
+    const leaves = entries.filter(stored => !parentIds.has(stored.id) && !rebuilt.has(stored.id));
+    const total = entries.length - rebuilt.size;
+    let completed = 0;
+    for (const leaf of leaves) {
+        const branch: StoredEntry[] = [];
+        let cursor = leaf;
+        while (!rebuilt.has(cursor.id)) {
+            branch.unshift(cursor);
+            cursor = byId.get(cursor.parentId!)!;
+        }
+        let start = 0;
+        while (start < branch.length) {
+            const first = branch[start];
+            const parent = rebuilt.get(first.parentId!)!;
+            if (first.stepErrors) {
+                // Skipped steps left the table unchanged when they were recorded, so they do now too.
+                rebuilt.set(first.id, { id: first.id, parentId: parent.id, data: parent.data, steps: [...parent.steps, first.step!], schema: first.schema, stepErrors: first.stepErrors });
+                start++;
+                completed++;
+                continue;
+            }
+            let end = start;
+            while (end < branch.length && !branch[end].stepErrors) end++;
+            const run = branch.slice(start, end);
+            const replayed = await replayStepsInWorker(parent, run.map(stored => stored.step!), { lookups }, {
+                signal: options.signal,
+                onProgress: progress => options.onProgress?.({ ...progress, fraction: (completed + progress.fraction * run.length) / total }),
+            });
+            // A step that ran when recorded can fail now, e.g. when a lookup table is gone; its errors are kept.
+            run.forEach((stored, i) => {
+                rebuilt.set(stored.id, { ...replayed[i], id: stored.id, parentId: stored.parentId, schema: stored.schema });
+            });
+            completed += run.length;
+            start = end;
+        }
+    }
+    return entries.map(stored => rebuilt.get(stored.id)!);
+};
+
+export const loadSession = async (id: string, options?: EngineTaskOptions): Promise<RestoredSession> => {
+    const [summaries, tables, state] = await Promise.all([
+        listSessions(),
+        runTransaction<StoredTables>([TABLES], 'readonly', tx => tx.objectStore(TABLES).get(id)),
+        runTransaction<StoredState>([STATES], 'readonly', tx => tx.objectStore(STATES).get(id)),
+    ]);
+    const summary = summaries.find(session => session.id === id);
+    if (!summary || !tables || !state) {
+        throw new Error('This session is incomplete and cannot be restored.');
+    }
+
+    // Row identities are symbols, which IndexedDB doesn't keep; new ones are handed out before the replay.
+    assignRowIds(tables.original.rows);
+    Object.values(tables.lookups).forEach(lookup => assignRowIds(lookup.rows));
+
+    return {
+        fileName: summary.fileName,
+        lookups: tables.lookups,
+        newline: tables.newline,
+        finalNewline: tables.finalNewline,
+        history: await rebuildHistory(tables.original, state.entries, tables.lookups, options),
+        currentEntryId: state.currentEntryId,
+        headEntryId: state.headEntryId,
+        conditionalFormats: state.conditionalFormats,
+        messages: state.messages,
+    };
+};
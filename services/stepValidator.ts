@@ -0,0 +1,305 @@
+import { TableData, Step, StepIssue, StepContext, Operation, ColumnType, FilterRule, FilterNode, SortDirection, Aggregation } from '../types';
+import { applyStep } from './dataProcessor';
+import { applyStepToSchema } from './schemaSync';
+import { FILTER_CONDITIONS, normalizeFilter, isFilterGroup } from './filterEngine';
+import { AGGREGATE_FUNCTIONS } from './aggregations';
+import { JOIN_TYPES } from './joinTables';
+import { CAST_TARGETS, castValue } from './castValues';
+import { compileExpression } from './expressionEngine';
+import { resolveColumnTypes } from './comparison';
+
+const FORMAT_CONDITIONS = ['equals', 'not_equals', 'gt', 'lt', 'gte', 'lte', 'contains', 'not_contains'];
+const FORMAT_COLORS = ['red', 'green', 'blue', 'yellow', 'purple'];
+const ORDERED_CONDITIONS = ['gt', 'lt', 'gte', 'lte', 'between'];
+const VALUELESS_CONDITIONS = ['is_null', 'is_not_null'];
+
+const TYPE_NAMES: Record<ColumnType, string> = { string: 'text', number: 'number', date: 'date', boolean: 'true/false' };
+
+// What a single step's checks report before the caller adds its position in the pipeline.
+type Problem = Omit<StepIssue, 'index' | 'step'>;
+
+const isBlank = (val: any): boolean => val === null || val === undefined || String(val).trim() === '';
+
+const editDistance = (a: string, b: string): number => {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+// Headers that look like a mistyped `name`: same letters ignoring case and separators, a small edit distance, or containment.
+export const suggestColumns = (name: string, headers: string[], limit = 3): string[] => {
+    const normalize = (s: string) => s.toLowerCase().replace(/[\s_\-.]+/g, '');
+    const target = normalize(String(name ?? ''));
+    if (!target) return [];
+    return headers
+        .map(header => {
+            const candidate = normalize(header);
+            const distance = editDistance(target, candidate);
+            const contains = Math.min(target.length, candidate.length) >= 3 && (candidate.includes(target) || target.includes(candidate));
+            const close = (distance <= Math.max(1, Math.round(target.length / 3)) && distance < target.length) || contains;
+            return { header, distance, close };
+        })
+        .filter(match => match.close)
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, limit)
+        .map(match => match.header);
+};
+
+const missingColumn = (column: string, headers: string[], where = ''): Problem => {
+    const suggestions = suggestColumns(column, headers);
+    const hint = suggestions.length ? ` Did you mean ${suggestions.map(s => `"${s}"`).join(' or ')}?` : '';
+    return { message: `There is no column "${column}"${where}.${hint}`, column, suggestions };
+};
+
+// Checks that `value` is a non-empty list of existing columns.
+const checkColumnList = (value: any, param: string, headers: string[], problems: Problem[], allowEmpty = false) => {
+    if (!Array.isArray(value) || (!allowEmpty && value.length === 0)) {
+        problems.push({ message: `'${param}' must list at least one column.` });
+        return;
+    }
+    value.filter(c => !headers.includes(c)).forEach(c => problems.push(missingColumn(c, headers)));
+};
+
+const checkColumn = (value: any, param: string, headers: string[], problems: Problem[]) => {
+    if (isBlank(value)) problems.push({ message: `'${param}' is required.` });
+    else if (!headers.includes(value)) problems.push(missingColumn(value, headers));
+};
+
+// A value that the column's type can't read would make the comparison silently fall back to text.
+const checkValueFitsType = (value: any, column: string, type: ColumnType, problems: Problem[]) => {
+    if (isBlank(value) || type === 'string') return;
+    if (!castValue(value, type).ok) {
+        problems.push({ message: `"${value}" is not a valid ${TYPE_NAMES[type]} value for the ${TYPE_NAMES[type]} column "${column}".` });
+    }
+};
+
+const checkFilterRule = (rule: FilterRule, headers: string[], types: Record<string, ColumnType>, problems: Problem[]) => {
+    if (!FILTER_CONDITIONS.includes(rule.condition)) {
+        problems.push({ message: `Unknown filter condition "${rule.condition}".` });
+        return;
+    }
+    if (isBlank(rule.column) || !headers.includes(rule.column)) {
+        checkColumn(rule.column, 'column', headers, problems);
+        return;
+    }
+    const type = types[rule.column];
+    const values = Array.isArray(rule.values) && rule.values.length > 0
+        ? rule.values
+        : isBlank(rule.value) ? [] : String(rule.value).split(',').map(v => v.trim());
+
+    if (VALUELESS_CONDITIONS.includes(rule.condition)) return;
+    if (rule.condition === 'between' && values.length !== 2) {
+        problems.push({ message: `'between' on "${rule.column}" needs exactly two values, [min, max].` });
+        return;
+    }
+    if ((rule.condition === 'in' || rule.condition === 'not_in') && values.length === 0) {
+        problems.push({ message: `'${rule.condition}' on "${rule.column}" needs a list of values.` });
+        return;
+    }
+    if (!['in', 'not_in', 'between'].includes(rule.condition) && isBlank(rule.value)) {
+        problems.push({ message: `The '${rule.condition}' condition on "${rule.column}" needs a value.` });
+        return;
+    }
+    if (rule.condition === 'matches_regex') {
+        try {
+            new RegExp(String(rule.value));
+        } catch {
+            problems.push({ message: `"${rule.value}" is not a valid regular expression.` });
+        }
+        return;
+    }
+    if (['contains', 'not_contains', 'starts_with', 'ends_with'].includes(rule.condition)) return;
+
+    const compared = ['in', 'not_in', 'between'].includes(rule.condition) ? values : [rule.value];
+    if (ORDERED_CONDITIONS.includes(rule.condition) && type === 'string' && compared.some(v => castValue(v, 'number').ok || castValue(v, 'date').ok)) {
+        problems.push({
+            message: `"${rule.column}" is a text column, so '${rule.condition}' would compare alphabetically ("9" > "10"). Convert it to a number or date first.`,
+        });
+        return;
+    }
+    compared.forEach(v => checkValueFitsType(v, rule.column, type, problems));
+};
+
+const collectRules = (node: FilterNode): FilterRule[] => (isFilterGroup(node) ? node.conditions.flatMap(collectRules) : [node]);
+
+// Checks one step against the table it would run on. Disabled steps don't run, so they can't be wrong.
+export const validateStep = (data: TableData, step: Step, context: StepContext = {}): Problem[] => {
+    if (step.disabled) return [];
+    const params = step.params || {};
+    const { headers } = data;
+    const problems: Problem[] = [];
+    const typesOf = (columns: string[]) => resolveColumnTypes(data, columns.filter(c => headers.includes(c)), context.schema);
+
+    switch (step.op) {
+        case Operation.Filter: {
+            const rules = collectRules(normalizeFilter(params));
+            if (rules.length === 0) {
+                problems.push({ message: 'The filter has no conditions.' });
+                break;
+            }
+            const types = typesOf(rules.map(rule => rule.column));
+            rules.forEach(rule => checkFilterRule(rule, headers, types, problems));
+            break;
+        }
+        case Operation.Sort: {
+            checkColumnList(params.columns, 'columns', headers, problems);
+            const directions = params.directions || [];
+            if (!Array.isArray(directions) || directions.some((d: any) => !Object.values(SortDirection).includes(d))) {
+                problems.push({ message: `Sort directions must be 'asc' or 'desc'.` });
+            }
+            if (params.nulls !== undefined && params.nulls !== 'first' && params.nulls !== 'last') {
+                problems.push({ message: `'nulls' must be 'first' or 'last'.` });
+            }
+            break;
+        }
+        case Operation.Dedupe:
+            checkColumnList(params.keys, 'keys', headers, problems);
+            break;
+        case Operation.RemoveColumn:
+            checkColumn(params.column_to_remove, 'column_to_remove', headers, problems);
+            break;
+        case Operation.RenameColumn:
+            checkColumn(params.old_name, 'old_name', headers, problems);
+            if (isBlank(params.new_name)) problems.push({ message: `'new_name' is required.` });
+            else if (params.new_name === params.old_name) problems.push({ message: `'new_name' is the same as 'old_name'.` });
+            else if (headers.includes(params.new_name)) {
+                problems.push({ message: `A column named "${params.new_name}" already exists.` });
+            }
+            break;
+        case Operation.FillNA: {
+            checkColumn(params.fill_column, 'fill_column', headers, problems);
+            if (params.fill_value === undefined || params.fill_value === null) {
+                problems.push({ message: `'fill_value' is required.` });
+            } else if (headers.includes(params.fill_column)) {
+                checkValueFitsType(params.fill_value, params.fill_column, typesOf([params.fill_column])[params.fill_column], problems);
+            }
+            break;
+        }
+        case Operation.AddColumn: {
+            if (isBlank(params.new_column)) problems.push({ message: `'new_column' is required.` });
+            try {
+                compileExpression(String(params.expression ?? '')).columns
+                    .filter(c => !headers.includes(c))
+                    .forEach(c => problems.push(missingColumn(c, headers, ' in the expression')));
+            } catch (error) {
+                problems.push({ message: `The expression can't be read: ${error instanceof Error ? error.message : error}` });
+            }
+            break;
+        }
+        case Operation.CastColumn:
+            checkColumn(params.column, 'column', headers, problems);
+            if (!CAST_TARGETS.includes(params.target_type)) {
+                problems.push({ message: `'target_type' must be one of ${CAST_TARGETS.join(', ')}.` });
+            }
+            break;
+        case Operation.GroupBy: {
+            const aggregations: Aggregation[] = params.aggregations || [];
+            checkColumnList(params.group_keys || [], 'group_keys', headers, problems, true);
+            if (!Array.isArray(aggregations) || (aggregations.length === 0 && !params.group_keys?.length)) {
+                problems.push({ message: 'A group-by needs group keys, aggregations or both.' });
+                break;
+            }
+            aggregations.forEach(agg => {
+                if (!AGGREGATE_FUNCTIONS.includes(agg.func)) problems.push({ message: `Unknown aggregation "${agg.func}".` });
+                else if (agg.func !== 'count' || agg.column) checkColumn(agg.column, `${agg.func} column`, headers, problems);
+            });
+            break;
+        }
+        case Operation.Pivot:
+            checkColumnList(params.index_columns || [], 'index_columns', headers, problems, true);
+            checkColumn(params.pivot_column, 'pivot_column', headers, problems);
+            checkColumn(params.value_column, 'value_column', headers, problems);
+            if (params.aggregator !== undefined && !AGGREGATE_FUNCTIONS.includes(params.aggregator)) {
+                problems.push({ message: `Unknown aggregator "${params.aggregator}".` });
+            }
+            break;
+        case Operation.Unpivot:
+            checkColumnList(params.id_columns || [], 'id_columns', headers, problems, true);
+            checkColumnList(params.value_columns || [], 'value_columns', headers, problems, true);
+            break;
+        case Operation.Join: {
+            const lookup = context.lookups?.[params.right_table];
+            if (!lookup) {
+                problems.push({ message: `Lookup table "${params.right_table}" is not loaded. Use Add Lookup first.` });
+                break;
+            }
+            if (params.how !== undefined && !JOIN_TYPES.includes(params.how)) {
+                problems.push({ message: `'how' must be one of ${JOIN_TYPES.join(', ')}.` });
+            }
+            checkColumnList(params.left_on, 'left_on', headers, problems);
+            const rightOn: string[] = params.right_on?.length ? params.right_on : params.left_on || [];
+            if (rightOn.length !== (params.left_on || []).length) {
+                problems.push({ message: `'left_on' and 'right_on' must list the same number of columns.` });
+            }
+            rightOn.filter(c => !lookup.headers.includes(c)).forEach(c => problems.push(missingColumn(c, lookup.headers, ` in ${params.right_table}`)));
+            break;
+        }
+        case Operation.ConditionalFormat: {
+            checkColumn(params.column, 'column', headers, problems);
+            if (!FORMAT_CONDITIONS.includes(params.condition)) problems.push({ message: `Unknown highlight condition "${params.condition}".` });
+            if (!FORMAT_COLORS.includes(params.color)) problems.push({ message: `'color' must be one of ${FORMAT_COLORS.join(', ')}.` });
+            break;
+        }
+        default:
+            break;
+    }
+    return problems;
+};
+
+/**
+ * Checks every step against the table it will actually run on: valid steps are applied so that
+ * columns created, renamed or removed earlier in the pipeline are visible to later steps.
+ * Invalid steps are skipped, so one bad step doesn't hide problems further down.
+ */
+export const validateSteps = (data: TableData, steps: Step[], context: StepContext = {}): StepIssue[] => {
+    const issues: StepIssue[] = [];
+    let current = data;
+    let schema = context.schema;
+
+    steps.forEach((step, index) => {
+        const stepContext = { ...context, schema };
+        const problems = validateStep(current, step, stepContext);
+        if (problems.length > 0) {
+            issues.push(...problems.map(problem => ({ index, step, ...problem })));
+            return;
+        }
+        // Highlight rules don't touch the data.
+        if (step.op === Operation.ConditionalFormat) return;
+        try {
+            current = applyStep(current, step, stepContext);
+            if (schema) schema = applyStepToSchema(schema, step, current);
+        } catch (error) {
+            issues.push({ index, step, message: error instanceof Error ? error.message : String(error) });
+        }
+    });
+
+    return issues;
+};
+
+export const formatStepIssues = (issues: StepIssue[], stepCount: number): string => {
+    return issues
+        .map(issue => (stepCount > 1 ? `Step ${issue.index + 1} (${issue.step.op}): ${issue.message}` : issue.message))
+        .join('\n');
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Rewrites the user's command with the closest column names, for one-click retries.
+export const suggestCorrectedCommands = (command: string, issues: StepIssue[], limit = 3): string[] => {
+    const corrected = new Set<string>();
+    for (const issue of issues) {
+        if (!issue.column || !issue.suggestions) continue;
+        const pattern = new RegExp(`(^|[^\\w])${escapeRegExp(issue.column)}(?=$|[^\\w])`, 'gi');
+        if (!pattern.test(command)) continue;
+        for (const suggestion of issue.suggestions) {
+            corrected.add(command.replace(pattern, (_, prefix) => `${prefix}${suggestion}`));
+        }
+    }
+    return [...corrected].slice(0, limit);
+};
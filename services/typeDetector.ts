@@ -4,8 +4,17 @@ import { ColumnType } from '../types';
 // A simple regex for ISO-like dates (YYYY-MM-DD, YYYY/MM/DD)
 const dateRegex = /^\d{4}[-/]\d{1,2}[-/]\d{1,2}/;
 
+// Zip codes, account numbers and long order IDs look numeric, but reading them as numbers would drop
+// leading zeros or, past 15 digits, lose precision.
+export const looksLikeIdentifier = (val: any): boolean => {
+  if (typeof val !== 'string') return false;
+  const text = val.trim();
+  return /^[+-]?0\d+$/.test(text) || /^[+-]?\d{16,}$/.test(text);
+};
+
 const isNumericStrict = (val: any): boolean => {
   if (typeof val === 'string' && val.trim() === '') return false;
+  if (looksLikeIdentifier(val)) return false;
   // Exclude boolean strings from being considered numeric
   if (String(val).toLowerCase() === 'true' || String(val).toLowerCase() === 'false') return false;
   return !isNaN(parseFloat(val)) && isFinite(val);
@@ -0,0 +1,135 @@
+import * as ExcelJS from 'exceljs';
+import { TableData, ColumnSchema, ColumnType, ConditionalFormatRule, FormattingColor } from '../types';
+import { castValue } from './castValues';
+
+const MIN_COLUMN_WIDTH = 8;
+const MAX_COLUMN_WIDTH = 50;
+const WIDTH_SAMPLE_ROWS = 200;
+
+// Light fills close to the grid's highlight colours.
+const FILL_COLORS: Record<FormattingColor, string> = {
+    red: 'FFFFC7CE',
+    green: 'FFC6EFCE',
+    blue: 'FFDDEBF7',
+    yellow: 'FFFFEB9C',
+    purple: 'FFE4DFEC',
+};
+
+// Dates are written as UTC so Excel shows the same wall-clock time the table holds.
+const toExcelDate = (iso: string): Date => {
+    const [y, m, d, hh = 0, mm = 0, ss = 0] = iso.split(/[-T:]/).map(Number);
+    return new Date(Date.UTC(y, m - 1, d, hh, mm, ss));
+};
+
+// A typed cell for the column's schema type. Values that don't convert are written as text, unchanged.
+const toExcelValue = (value: any, type: ColumnType): ExcelJS.CellValue => {
+    if (value === null || value === undefined || value === '') return null;
+    if (type === 'string') return String(value);
+    const { ok, value: converted } = castValue(value, type);
+    if (!ok || converted === null) return String(value);
+    return type === 'date' ? toExcelDate(converted) : converted;
+};
+
+const quote = (text: string): string => `"${text.replace(/"/g, '""')}"`;
+
+// The rule's value as a formula operand of the column's type.
+const toOperand = (value: any, type: ColumnType): string => {
+    if (type === 'number') {
+        const { ok, value: n } = castValue(value, 'number');
+        if (ok && n !== null) return String(n);
+    }
+    if (type === 'date') {
+        const { ok, value: iso } = castValue(value, 'date');
+        if (ok && iso !== null) {
+            const [y, m, d, hh = 0, mm = 0, ss = 0] = iso.split(/[-T:]/).map(Number);
+            return `(DATE(${y},${m},${d})+TIME(${hh},${mm},${ss}))`;
+        }
+    }
+    if (type === 'boolean') {
+        const { ok, value: b } = castValue(value, 'boolean');
+        if (ok && b !== null) return b ? 'TRUE' : 'FALSE';
+    }
+    return quote(String(value ?? ''));
+};
+
+/**
+ * Translates a highlight rule into an Excel formula for the column's first data cell; Excel shifts it
+ * down the range. Matches the app's semantics: ordered comparisons skip empty cells, equality is
+ * case-sensitive and "contains" is not.
+ */
+const toRuleFormula = (rule: ConditionalFormatRule, cell: string, type: ColumnType): string => {
+    const operand = toOperand(rule.value, type);
+    const isTyped = type === 'number' || type === 'date';
+    const nonEmpty = isTyped ? `ISNUMBER(${cell})` : `${cell}<>""`;
+    const equals = type === 'string' ? `EXACT(${cell},${operand})` : `${cell}=${operand}`;
+    // SEARCH treats * ? and ~ as wildcards unless escaped with ~.
+    const contains = `ISNUMBER(SEARCH(${quote(String(rule.value ?? '').replace(/[~*?]/g, '~$&'))},${cell}))`;
+    switch (rule.condition) {
+        case 'gt': return `AND(${nonEmpty},${cell}>${operand})`;
+        case 'lt': return `AND(${nonEmpty},${cell}<${operand})`;
+        case 'gte': return `AND(${nonEmpty},${cell}>=${operand})`;
+        case 'lte': return `AND(${nonEmpty},${cell}<=${operand})`;
+        case 'equals': return equals;
+        case 'not_equals': return `NOT(${equals})`;
+        case 'contains': return contains;
+        case 'not_contains': return `NOT(${contains})`;
+    }
+};
+
+const estimateWidth = (header: string, rows: Record<string, any>[]): number => {
+    let longest = header.length;
+    for (const row of rows.slice(0, WIDTH_SAMPLE_ROWS)) {
+        const value = row[header];
+        if (value !== null && value !== undefined) longest = Math.max(longest, String(value).length);
+    }
+    return Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, longest + 2));
+};
+
+/**
+ * Writes the table as an .xlsx workbook: cells typed by the schema, a bold frozen header with a
+ * filter, and the highlight rules as native conditional formatting, in the same order of precedence.
+ */
+export const exportXlsx = async (data: TableData, schema: ColumnSchema, formats: ConditionalFormatRule[], sheetName = 'Data'): Promise<ArrayBuffer> => {
+    const workbook = new ExcelJS.Workbook();
+    // Sheet names are limited to 31 characters and can't contain []:*?/\
+    const worksheet = workbook.addWorksheet(sheetName.replace(/[[\]:*?/\\]/g, '_').slice(0, 31) || 'Data', {
+        views: [{ state: 'frozen', ySplit: 1 }],
+    });
+    const types = data.headers.map(header => schema[header]?.type || 'string');
+
+    worksheet.columns = data.headers.map(header => ({ header, width: estimateWidth(header, data.rows) }));
+    worksheet.getRow(1).font = { bold: true };
+    for (const row of data.rows) {
+        worksheet.addRow(data.headers.map((header, i) => toExcelValue(row[header], types[i])));
+    }
+
+    data.headers.forEach((header, i) => {
+        const column = worksheet.getColumn(i + 1);
+        if (types[i] === 'date') {
+            const hasTime = data.rows.some(row => /T|:/.test(String(row[header] ?? '')));
+            column.numFmt = hasTime ? 'yyyy-mm-dd hh:mm:ss' : 'yyyy-mm-dd';
+        }
+    });
+
+    if (data.rows.length > 0 && data.headers.length > 0) {
+        worksheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: data.headers.length } };
+        const lastRow = data.rows.length + 1;
+        formats.forEach((rule, i) => {
+            const index = data.headers.indexOf(rule.column);
+            if (index === -1) return;
+            const letter = worksheet.getColumn(index + 1).letter;
+            worksheet.addConditionalFormatting({
+                ref: `${letter}2:${letter}${lastRow}`,
+                rules: [{
+                    type: 'expression',
+                    // The grid uses the first matching rule, so earlier rules take priority.
+                    priority: i + 1,
+                    formulae: [toRuleFormula(rule, `${letter}2`, types[index])],
+                    style: { fill: { type: 'pattern', pattern: 'solid', bgColor: { argb: FILL_COLORS[rule.color] } } },
+                }],
+            });
+        });
+    }
+
+    return workbook.xlsx.writeBuffer() as Promise<ArrayBuffer>;
+};
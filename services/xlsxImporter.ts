@@ -0,0 +1,81 @@
+import * as ExcelJS from 'exceljs';
+import { ImportResult, XlsxImportOptions, XlsxSheetPreview } from '../types';
+import { assignRowIds } from './diffEngine';
+import { buildTableFromRows, detectTableLayout } from './csvImporter';
+
+const PREVIEW_ROWS = 30;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Excel stores dates without a time zone and ExcelJS hands them over as UTC; they become the same
+// ISO text a CSV would contain, so the rest of the app sees one kind of date.
+const formatExcelDate = (date: Date): string => {
+    const day = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+    const hasTime = date.getUTCHours() || date.getUTCMinutes() || date.getUTCSeconds();
+    return hasTime ? `${day}T${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}` : day;
+};
+
+// Formulas contribute their cached result, rich text its plain text and hyperlinks their label.
+const toCellValue = (value: ExcelJS.CellValue): any => {
+    if (value === null || value === undefined) return null;
+    if (value instanceof Date) return formatExcelDate(value);
+    if (typeof value !== 'object') return value;
+    if ('result' in value) return toCellValue(value.result as ExcelJS.CellValue);
+    if ('richText' in value) return value.richText.map(run => run.text).join('');
+    if ('text' in value) return toCellValue(value.text as ExcelJS.CellValue);
+    if ('error' in value) return value.error;
+    return null;
+};
+
+const readRows = (worksheet: ExcelJS.Worksheet, limit = Infinity, onRow?: (rowNumber: number) => void): any[][] => {
+    const rows: any[][] = [];
+    worksheet.eachRow((row, rowNumber) => {
+        if (rows.length >= limit) return;
+        // `row.values` is 1-based and sparse.
+        const values = (row.values as ExcelJS.CellValue[]).slice(1);
+        rows.push(Array.from({ length: values.length }, (_, i) => toCellValue(values[i])));
+        onRow?.(rowNumber);
+    });
+    return rows;
+};
+
+const loadWorkbook = async (file: File): Promise<ExcelJS.Workbook> => {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await file.arrayBuffer());
+    return workbook;
+};
+
+export const inspectXlsxFile = async (file: File): Promise<XlsxSheetPreview[]> => {
+    const workbook = await loadWorkbook(file);
+    return workbook.worksheets.map(worksheet => ({
+        name: worksheet.name,
+        rowCount: worksheet.actualRowCount,
+        rows: readRows(worksheet, PREVIEW_ROWS),
+    }));
+};
+
+// Defaults for the import dialog: the first sheet with data, and its detected layout.
+export const detectXlsxOptions = (sheets: XlsxSheetPreview[]): XlsxImportOptions => {
+    const sheet = sheets.find(s => s.rows.length > 0) || sheets[0];
+    return { sheet: sheet?.name || '', ...detectTableLayout(sheet?.rows || []) };
+};
+
+// `onProgress` receives the fraction of the sheet's rows read so far.
+export const parseXlsxFile = async (file: File, options: XlsxImportOptions, onProgress?: (fraction: number) => void): Promise<ImportResult> => {
+    const workbook = await loadWorkbook(file);
+    const worksheet = workbook.getWorksheet(options.sheet);
+    if (!worksheet) throw new Error(`The workbook has no sheet named "${options.sheet}".`);
+
+    const total = worksheet.rowCount || 1;
+    let reported = 0;
+    const rows = readRows(worksheet, Infinity, rowNumber => {
+        // Report every 1% rather than every row.
+        if (rowNumber / total - reported >= 0.01) {
+            reported = rowNumber / total;
+            onProgress?.(Math.min(1, reported));
+        }
+    });
+    const result = buildTableFromRows(rows, options);
+    assignRowIds(result.data.rows);
+    return result;
+};
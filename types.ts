@@ -22,11 +22,168 @@ export enum AgentStatus {
   Applying = 'applying',
 }
 
+// Progress of work running in the background engine.
+export interface EngineProgress {
+  // Between 0 and 1.
+  fraction: number;
+  label: string;
+}
+
+// Where the table starts in a file, for CSV and spreadsheet imports alike.
+export interface TableLayout {
+  // Without a header row, columns are named column_1..n and the first row is data.
+  hasHeader: boolean;
+  // 1-based, counting the lines that remain after comments and blank lines are dropped. Without a
+  // header, the first data row.
+  headerRow: number;
+  // Lines between the header and the first data row, such as a row of units.
+  skipRows: number;
+}
+
+export interface CsvImportOptions extends TableLayout {
+  // Empty to detect it from the file.
+  delimiter: string;
+  quoteChar: string;
+  encoding: string;
+  // Lines starting with this are ignored; empty for none.
+  commentPrefix: string;
+  // Keeps every cell as the exact text in the file. Column types then only apply when comparing
+  // and computing, so untouched cells are exported unchanged.
+  keepRawValues: boolean;
+}
+
+export interface XlsxImportOptions extends TableLayout {
+  sheet: string;
+}
+
+// The start of one worksheet, for choosing the sheet and layout before importing.
+export interface XlsxSheetPreview {
+  name: string;
+  rowCount: number;
+  rows: any[][];
+}
+
+// A column name that had to be changed on import so every column has a unique, usable key.
+export interface HeaderChange {
+  // 1-based position of the column.
+  column: number;
+  original: string;
+  renamed: string;
+  reason: 'blank' | 'duplicate' | 'trimmed' | 'reserved' | 'missing';
+}
+
+export interface ImportResult {
+  data: TableData;
+  headerChanges: HeaderChange[];
+  // The file's line ending and whether its last line had one, which CSV exports reuse so an
+  // unchanged table exports byte for byte.
+  newline?: string;
+  finalNewline?: boolean;
+}
+
+export type ExportFormatId = 'csv' | 'tsv' | 'json' | 'ndjson' | 'markdown' | 'html' | 'sql';
+
+// Settings for text exports. Each format uses only the ones that make sense for it.
+export interface ExportOptions {
+  // CSV only; TSV always uses tabs.
+  delimiter: string;
+  // 'minimal' quotes only the fields that need it.
+  quoting: 'minimal' | 'all';
+  // Line ending for CSV and TSV: "\r\n" or "\n", and whether the last row ends with one too.
+  newline: string;
+  finalNewline: boolean;
+  // Written for empty cells in CSV, TSV, Markdown and HTML. JSON and SQL have their own null.
+  nullValue: string;
+  // A pattern such as "DD/MM/YYYY" for date columns; empty keeps the values as they are.
+  dateFormat: string;
+  // Exports the rows in the grid's current sort order rather than the table's.
+  useGridOrder: boolean;
+  // SQL only.
+  tableName: string;
+}
+
+// Secondary tables loaded for joins, keyed by file name.
+export type LookupTables = Record<string, TableData>;
+
+// What applyStep needs besides the table itself.
+export interface StepContext {
+  lookups?: LookupTables;
+  // Column types for type-aware comparisons; columns it doesn't cover are inferred from the data.
+  schema?: ColumnSchema;
+}
+
+// History is a tree: applying a step after going back starts a branch instead of discarding the old future.
+export interface HistoryEntry {
+  id: string;
+  // Null for the state the file was loaded in.
+  parentId: string | null;
+  data: TableData;
+  steps: Step[];
+  schema: ColumnSchema;
+  // Set when this entry's step could no longer run after an earlier step was edited; the data is then unchanged.
+  stepErrors?: string[];
+}
+
+// What the recent-sessions list shows, without loading the session itself.
+export interface SessionSummary {
+  id: string;
+  fileName: string;
+  savedAt: number;
+  rowCount: number;
+  columnCount: number;
+  stepCount: number;
+  lastStep?: string;
+}
+
+export type LLMProviderId = 'gemini' | 'openai' | 'mock';
+
+// Which model backend interprets commands. `baseUrl` only applies to OpenAI-compatible endpoints.
+export interface LLMSettings {
+  provider: LLMProviderId;
+  model: string;
+  baseUrl?: string;
+  apiKey?: string;
+  // Keep the key in localStorage across browser sessions; otherwise it lasts until the tab is closed.
+  rememberApiKey?: boolean;
+}
+
 export interface Message {
   id: string;
   sender: 'user' | 'agent';
   content: string;
   suggestions?: string[];
+  // Which parser turned the user's command into steps, e.g. "built-in rules" or "Google Gemini (gemini-2.5-flash)".
+  parsedBy?: string;
+}
+
+// A compact summary of one column, so the model can pick conditions that fit the real values.
+export interface ColumnProfile {
+  type: ColumnType;
+  empty: number;
+  distinct: number;
+  // Most frequent values, most common first.
+  topValues: string[];
+  min?: string;
+  max?: string;
+}
+
+// Everything parseCommand knows besides the command itself.
+export interface CommandContext {
+  headers: string[];
+  lookupHeaders: Record<string, string[]>;
+  // Recent conversation, oldest first, not including the command being parsed.
+  messages: Pick<Message, 'sender' | 'content'>[];
+  // Steps applied so far, oldest first.
+  steps: Step[];
+  // Profiled from the first `profiledRows` of `rowCount` rows.
+  profile: Record<string, ColumnProfile>;
+  rowCount: number;
+  profiledRows: number;
+}
+
+export interface ParsedCommand {
+  steps: Step[];
+  parsedBy: string;
 }
 
 export enum Operation {
@@ -36,6 +193,12 @@ export enum Operation {
   RemoveColumn = 'remove_column',
   RenameColumn = 'rename_column',
   FillNA = 'fill_na',
+  AddColumn = 'add_column',
+  CastColumn = 'cast_column',
+  GroupBy = 'group_by',
+  Pivot = 'pivot',
+  Unpivot = 'unpivot',
+  Join = 'join',
   ConditionalFormat = 'conditional_format',
   Error = 'error',
 }
@@ -45,32 +208,127 @@ export enum SortDirection {
   Desc = 'desc',
 }
 
+export type NullOrder = 'first' | 'last';
+
+export interface CompareOptions {
+  nulls?: NullOrder;
+  // Compare digit runs by value, so "item2" sorts before "item10". On by default.
+  natural?: boolean;
+  caseSensitive?: boolean;
+  locale?: string;
+}
+
 export type SortConfig = {
   key: string;
   direction: SortDirection;
 } | null;
 
+export type FilterCondition =
+  | 'equals' | 'not_equals' | 'gt' | 'lt' | 'gte' | 'lte' | 'contains' | 'not_contains'
+  | 'in' | 'not_in' | 'between' | 'is_null' | 'is_not_null' | 'starts_with' | 'ends_with' | 'matches_regex';
+
+export interface FilterRule {
+  column: string;
+  condition: FilterCondition;
+  value?: any;
+  // For `in`/`not_in` (the candidates) and `between` ([min, max], inclusive).
+  values?: any[];
+  // Equality defaults to case-sensitive, text search (contains, starts_with, ...) to case-insensitive.
+  case_sensitive?: boolean;
+}
+
+export interface FilterGroup {
+  logic: 'and' | 'or';
+  conditions: FilterNode[];
+}
+
+export type FilterNode = FilterRule | FilterGroup;
+
+export type AggregateFunction = 'sum' | 'mean' | 'min' | 'max' | 'count' | 'count_distinct' | 'first' | 'last';
+
+export interface Aggregation {
+  // Omitted only for `count`, which then counts rows.
+  column?: string;
+  func: AggregateFunction;
+  // Output header; defaults to `${func}_${column}`.
+  as?: string;
+}
+
 export interface Step {
   op: Operation;
   params: any;
   explanation: string;
+  // Switched off in the pipeline editor: the step stays in the list but doesn't run.
+  disabled?: boolean;
 }
 
 export interface PreviewDiff {
   rowsAdded: number;
   rowsRemoved: number;
   rowsModified: number;
+  cellsModified: number;
+  changedColumns: Record<string, number>;
+  columnsAdded: number;
+  columnsRemoved: number;
+}
+
+export type DiffStatus = 'added' | 'removed' | 'modified' | 'unmodified';
+
+export interface DiffSampleRow {
+  status: DiffStatus;
+  values: Record<string, any>;
+  // Previous values of the cells that changed, keyed by the row's current header.
+  previous: Record<string, any>;
+}
+
+export type CastTarget = 'string' | 'number' | 'integer' | 'boolean' | 'date';
+
+export interface CastFailure {
+  column: string;
+  target: CastTarget;
+  count: number;
+  // Row numbers are 1-based positions in the table the cast ran on.
+  examples: { row: number; value: any }[];
+}
+
+export type JoinType = 'inner' | 'left' | 'right' | 'full';
+
+export interface JoinStats {
+  table: string;
+  how: JoinType;
+  // Rows of the main table with at least one match.
+  matchedRows: number;
+  unmatchedLeft: number;
+  unmatchedRight: number;
+  // Distinct keys that occur more than once in the lookup table, each of which multiplies matching rows.
+  duplicateKeys: number;
 }
 
 export interface PreviewResult {
   diff: PreviewDiff;
-  sample: Record<string, any>[];
+  headers: string[];
+  // Maps a header after the change to the header it had before, for renamed columns.
+  renamedColumns: Record<string, string>;
+  rowCount: number;
+  previousRowCount: number;
+  sample: DiffSampleRow[];
+  castFailures?: CastFailure[];
+  joinStats?: JoinStats[];
+}
+
+export interface PreviewData extends PreviewResult {
+  steps: Step[];
+  enabled: boolean[];
+  explanation: string;
 }
 
-export interface PreviewData {
+export interface StepIssue {
+  index: number;
   step: Step;
-  diff: PreviewDiff;
-  sample: Record<string, any>[];
+  message: string;
+  // For unknown columns: the name the step used and the closest existing headers.
+  column?: string;
+  suggestions?: string[];
 }
 
 export type FormattingColor = 'red' | 'green' | 'blue' | 'yellow' | 'purple';